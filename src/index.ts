@@ -13,9 +13,11 @@ import { logger as honoLogger } from "hono/logger";
 import { prettyJSON } from "hono/pretty-json";
 import { timing } from "hono/timing";
 
-import { explorerRoutes, aiRoutes } from "./routes";
-import { startSyncService, stopSyncService, getSyncConfig } from "./services/sync";
+import { explorerRoutes, aiRoutes, adminRoutes } from "./routes";
+import { getSyncConfig } from "./services/sync";
+import { registerDefaultJobs, startJobs, stopJobs } from "./services/jobs";
 import * as store from "./services/store";
+import { restorePersistedState, flushPersistedState } from "./services/persistence";
 import logger from "./lib/logger";
 
 // ============================================
@@ -25,6 +27,7 @@ import logger from "./lib/logger";
 const PORT = parseInt(process.env.PORT || "3000", 10);
 const HOST = process.env.HOST || "0.0.0.0";
 const NODE_ENV = process.env.NODE_ENV || "development";
+const SYNC_ENABLED = process.env.SYNC_ENABLED !== "false";
 
 // Validate required environment variables
 const requiredEnvVars = ["OPENROUTER_API_KEY"];
@@ -79,10 +82,27 @@ app.get("/", (c) => {
     endpoints: {
       health: "/health",
       network: "/network",
+      networkHistory: "/network/history?metric=onlineNodes&resolution=1m|1h|1d",
       nodes: "/nodes",
       node: "/node/:ip",
+      nodeHistory: "/node/:ip/history?window=24h|7d|30d",
+      nodeEvents: "/node/:ip/events",
+      nodeAvailability: "/node/:ip/availability",
+      nodeLatency: "/node/:ip/latency",
+      events: "/events?type=&since=&until=&limit=",
+      operators: "/operators",
+      operator: "/operator/:pubkey",
+      operatorConflicts: "/operators/conflicts",
       search: "/search",
       map: "/map",
+      topology: "/topology?edges=false",
+      decentralization: "/decentralization?weight=nodes|storage&dimension=country,provider",
+      decentralizationHistory: "/decentralization/history?dimension=country&metric=nakamoto&resolution=1h",
+      syncStatus: "/sync/status?runs=10",
+      syncStream: "/sync/status/stream (SSE)",
+      syncSchedule: "/sync/schedule?failing=true",
+      probeSummary: "/probes/summary",
+      schemaCoverage: "/schema/coverage?source=get-stats|get-pods",
       ai: {
         search: "POST /ai/search",
         diagnose: "POST /ai/diagnose",
@@ -94,10 +114,23 @@ app.get("/", (c) => {
         versions: "/distribution/versions",
         countries: "/distribution/countries",
         health: "/distribution/health",
+        latency: "/distribution/latency?by=country|version",
+        providers: "/distribution/providers",
+      },
+      admin: {
+        exportSnapshot: "/admin/snapshot?format=json|ndjson",
+        importSnapshot: "POST /admin/snapshot",
+        jobs: "/admin/jobs",
+        jobRuns: "/admin/jobs/runs?job=&limit=50",
+        triggerJob: "POST /admin/jobs/:name/trigger?wait=true",
+        pauseJob: "POST /admin/jobs/:name/pause",
+        resumeJob: "POST /admin/jobs/:name/resume",
       },
       leaderboards: {
         health: "/leaderboard/health",
         uptime: "/leaderboard/uptime",
+        availability: "/leaderboard/availability?window=24h|7d|30d",
+        latency: "/leaderboard/latency?minSamples=5",
       },
     },
     sync: {
@@ -127,10 +160,40 @@ app.get("/openapi", (c) => {
     paths: {
       "/health": { get: { summary: "Health check", tags: ["System"] } },
       "/network": { get: { summary: "Network statistics", tags: ["Network"] } },
+      "/network/history": { get: { summary: "Network metric history (min/avg/max rollups)", tags: ["Network"] } },
       "/nodes": { get: { summary: "List all nodes", tags: ["Nodes"] } },
       "/node/{ip}": { get: { summary: "Get node details", tags: ["Nodes"] } },
+      "/node/{ip}/history": { get: { summary: "Node activity history", tags: ["Nodes"] } },
+      "/node/{ip}/availability": { get: { summary: "Node availability (SLA) over 24h/7d/30d", tags: ["Nodes"] } },
+      "/node/{ip}/latency": { get: { summary: "Node probe latency percentiles", tags: ["Nodes"] } },
+      "/node/{ip}/events": { get: { summary: "Node lifecycle events", tags: ["Events"] } },
+      "/events": { get: { summary: "Network lifecycle event feed", tags: ["Events"] } },
+      "/operators": { get: { summary: "List operators (pubkey identities)", tags: ["Operators"] } },
+      "/operators/conflicts": { get: { summary: "Identity conflicts between pubkeys and IPs", tags: ["Operators"] } },
+      "/operator/{pubkey}": { get: { summary: "Operator details across addresses", tags: ["Operators"] } },
+      "/distribution/latency": { get: { summary: "Probe latency percentiles by country or version", tags: ["Network"] } },
+      "/distribution/providers": { get: { summary: "Node distribution by network owner (ASN)", tags: ["Network"] } },
+      "/leaderboard/latency": { get: { summary: "Lowest-latency nodes", tags: ["Network"] } },
       "/search": { get: { summary: "Search nodes with filters", tags: ["Search"] } },
       "/map": { get: { summary: "Get map markers", tags: ["Visualization"] } },
+      "/schema/coverage": { get: { summary: "pRPC schema drift per node version", tags: ["System"] } },
+      "/probes/summary": { get: { summary: "Probe outcome breakdown (timeout, refused, ...)", tags: ["System"] } },
+      "/sync/status": { get: { summary: "Sync progress (phase, done/total, ETA) and run history", tags: ["System"] } },
+      "/sync/status/stream": { get: { summary: "Live sync progress (server-sent events)", tags: ["System"] } },
+      "/sync/schedule": { get: { summary: "Per-node probe schedule and backoff", tags: ["System"] } },
+      "/topology": { get: { summary: "Gossip topology graph with components", tags: ["Network"] } },
+      "/decentralization": { get: { summary: "Concentration metrics (HHI, Nakamoto coefficient, top-N share, entropy)", tags: ["Network"] } },
+      "/decentralization/history": { get: { summary: "Concentration metric history (min/avg/max rollups)", tags: ["Network"] } },
+      "/admin/snapshot": {
+        get: { summary: "Export state snapshot (JSON or NDJSON)", tags: ["Admin"] },
+        post: { summary: "Import state snapshot", tags: ["Admin"] },
+      },
+      "/admin/jobs": { get: { summary: "Background jobs with schedules and last runs", tags: ["Admin"] } },
+      "/admin/jobs/runs": { get: { summary: "Background job run history", tags: ["Admin"] } },
+      "/admin/jobs/{name}": { get: { summary: "Background job details", tags: ["Admin"] } },
+      "/admin/jobs/{name}/trigger": { post: { summary: "Run a job now", tags: ["Admin"] } },
+      "/admin/jobs/{name}/pause": { post: { summary: "Pause a job's schedule", tags: ["Admin"] } },
+      "/admin/jobs/{name}/resume": { post: { summary: "Resume a paused job", tags: ["Admin"] } },
       "/ai/search": { post: { summary: "AI-powered natural language search", tags: ["AI"] } },
       "/ai/diagnose": { post: { summary: "AI node diagnostics", tags: ["AI"] } },
       "/ai/briefing": { get: { summary: "AI network briefing", tags: ["AI"] } },
@@ -146,6 +209,7 @@ app.get("/openapi", (c) => {
 
 app.route("/", explorerRoutes);
 app.route("/ai", aiRoutes);
+app.route("/admin", adminRoutes);
 
 // ============================================
 // Error Handling
@@ -185,8 +249,11 @@ app.notFound((c) => {
 async function gracefulShutdown(signal: string) {
   logger.info(`${signal} received, shutting down gracefully...`);
   
-  // Stop sync service
-  stopSyncService();
+  // Stop background jobs
+  stopJobs();
+  
+  // Persist latest state before exiting
+  await flushPersistedState();
   
   logger.info("Shutdown complete");
   process.exit(0);
@@ -216,8 +283,14 @@ logger.info(`   Server: http://${HOST}:${PORT}`);
 logger.info(`   API Docs: http://${HOST}:${PORT}/openapi`);
 logger.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 
-// Start the sync service
-startSyncService();
+// Rehydrate persisted state, then start the background jobs (sync, crawl, cleanup, ...)
+await restorePersistedState();
+registerDefaultJobs();
+if (SYNC_ENABLED) {
+  startJobs();
+} else {
+  logger.info("Sync disabled (SYNC_ENABLED=false), background jobs not scheduled; serving persisted/imported state only");
+}
 
 // Start HTTP server
 serve({
@@ -28,6 +28,13 @@ export const openai = new OpenAI({
   },
 });
 
+/**
+ * Check whether an API key is configured (without one every feature falls back)
+ */
+export function isAiConfigured(): boolean {
+  return Boolean(process.env.OPENROUTER_API_KEY);
+}
+
 // ============================================
 // System Prompts
 // ============================================
@@ -45,6 +52,8 @@ Available filter keys:
 - minHealthScore: number (minimum health score 0-100)
 - version: string (software version)
 - hasPublicRpc: boolean
+- provider: string (hosting provider / network owner name, e.g., "Hetzner", "OVH", or "AS24940")
+- hosting: boolean (true = datacenter/cloud, false = residential)
 
 Rules:
 1. Return ONLY valid JSON, no explanation
@@ -57,7 +66,8 @@ Rules:
 Examples:
 - "nodes in Germany" → {"country": "Germany"}
 - "healthy nodes" → {"minHealthScore": 70}
-- "offline nodes" → {"status": "offline"}`,
+- "offline nodes" → {"status": "offline"}
+- "nodes on Hetzner" → {"provider": "Hetzner"}`,
 
   diagnose: `You are a network node diagnostic assistant for Xandeum. Analyze node statistics and provide a health assessment.
 
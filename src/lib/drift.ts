@@ -0,0 +1,184 @@
+/**
+ * Xandeum Explorer - Schema Drift
+ * Records how raw pRPC responses compare to our zod schemas, per node version
+ */
+
+import type { z } from "zod";
+import type {
+  SchemaSource,
+  SchemaFieldCoverage,
+  SchemaExtraField,
+  SchemaVersionCoverage,
+  SchemaCoverageReport
+} from "../types";
+
+// Unknown keys tracked per source/version (guards against a node spamming random keys)
+const MAX_EXTRA_FIELDS = 100;
+
+interface FieldCounters {
+  present: number;
+  wrongType: number;
+}
+
+interface ExtraFieldRecord {
+  seen: number;
+  types: Set<string>;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+interface VersionRecord {
+  samples: number;
+  fields: Map<string, FieldCounters>;
+  extras: Map<string, ExtraFieldRecord>;
+}
+
+const observations: Record<SchemaSource, Map<string, VersionRecord>> = {
+  "get-stats": new Map(),
+  "get-pods": new Map(),
+};
+
+// Remember each source's expected fields so the report covers fields never seen
+const knownFields: Partial<Record<SchemaSource, string[]>> = {};
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Compare one raw object against a zod object schema and record the result
+ */
+export function recordSchemaObservation(
+  source: SchemaSource,
+  schema: z.ZodObject,
+  raw: unknown,
+  version: string | null | undefined,
+  now: number = Date.now()
+): void {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return;
+  
+  const shape = schema.shape as Record<string, z.ZodType>;
+  const expected = Object.keys(shape);
+  knownFields[source] = expected;
+  
+  const key = version || "unknown";
+  let record = observations[source].get(key);
+  if (!record) {
+    record = { samples: 0, fields: new Map(), extras: new Map() };
+    observations[source].set(key, record);
+  }
+  record.samples++;
+  
+  const values = raw as Record<string, unknown>;
+  
+  for (const field of expected) {
+    if (!Object.hasOwn(values, field) || values[field] === undefined) continue;
+    
+    const counters = record.fields.get(field) || { present: 0, wrongType: 0 };
+    counters.present++;
+    if (!shape[field].safeParse(values[field]).success) {
+      counters.wrongType++;
+    }
+    record.fields.set(field, counters);
+  }
+  
+  for (const field of Object.keys(values)) {
+    if (Object.hasOwn(shape, field)) continue;
+    
+    let extra = record.extras.get(field);
+    if (!extra) {
+      if (record.extras.size >= MAX_EXTRA_FIELDS) continue;
+      extra = { seen: 0, types: new Set(), firstSeen: now, lastSeen: now };
+      record.extras.set(field, extra);
+    }
+    extra.seen++;
+    extra.types.add(typeName(values[field]));
+    extra.lastSeen = now;
+  }
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+function buildVersionCoverage(source: SchemaSource, version: string, record: VersionRecord): SchemaVersionCoverage {
+  const fields: SchemaFieldCoverage[] = (knownFields[source] || []).map(field => {
+    const counters = record.fields.get(field) || { present: 0, wrongType: 0 };
+    return {
+      field,
+      presentPercent: Math.round((counters.present / record.samples) * 1000) / 10,
+      missing: record.samples - counters.present,
+      wrongType: counters.wrongType,
+    };
+  });
+  
+  const extraFields: SchemaExtraField[] = Array.from(record.extras.entries())
+    .map(([field, extra]) => ({
+      field,
+      seen: extra.seen,
+      types: Array.from(extra.types),
+      firstSeen: new Date(extra.firstSeen),
+      lastSeen: new Date(extra.lastSeen),
+    }))
+    .sort((a, b) => b.seen - a.seen);
+  
+  return { version, samples: record.samples, fields, extraFields };
+}
+
+/**
+ * Build the coverage report for one response type
+ */
+export function getSchemaCoverage(source: SchemaSource): SchemaCoverageReport {
+  const versions = Array.from(observations[source].entries())
+    .map(([version, record]) => buildVersionCoverage(source, version, record))
+    .sort((a, b) => b.samples - a.samples);
+  
+  const newFields = new Map<string, { seen: number; versions: string[]; types: Set<string> }>();
+  const drifting = new Map<string, { missing: number; wrongType: number; versions: string[] }>();
+  
+  for (const coverage of versions) {
+    for (const extra of coverage.extraFields) {
+      const entry = newFields.get(extra.field) || { seen: 0, versions: [], types: new Set<string>() };
+      entry.seen += extra.seen;
+      entry.versions.push(coverage.version);
+      extra.types.forEach(t => entry.types.add(t));
+      newFields.set(extra.field, entry);
+    }
+    
+    for (const field of coverage.fields) {
+      if (field.missing === 0 && field.wrongType === 0) continue;
+      const entry = drifting.get(field.field) || { missing: 0, wrongType: 0, versions: [] };
+      entry.missing += field.missing;
+      entry.wrongType += field.wrongType;
+      entry.versions.push(coverage.version);
+      drifting.set(field.field, entry);
+    }
+  }
+  
+  return {
+    source,
+    samples: versions.reduce((sum, v) => sum + v.samples, 0),
+    versions,
+    newFields: Array.from(newFields.entries())
+      .map(([field, entry]) => ({ field, seen: entry.seen, versions: entry.versions, types: Array.from(entry.types) }))
+      .sort((a, b) => b.seen - a.seen),
+    driftingFields: Array.from(drifting.entries())
+      .map(([field, entry]) => ({ field, ...entry }))
+      .sort((a, b) => b.wrongType - a.wrongType || b.missing - a.missing),
+  };
+}
+
+export function isSchemaSource(value: string): value is SchemaSource {
+  return Object.hasOwn(observations, value);
+}
+
+export function clearSchemaObservations(): void {
+  observations["get-stats"].clear();
+  observations["get-pods"].clear();
+}
@@ -69,25 +69,175 @@ export function formatPercent(value: number, decimals: number = 1): string {
 }
 
 /**
- * Extract IP from address string like "192.190.136.37:9001"
+ * Split an address into host and port
+ * Handles "1.2.3.4:9001", "[2001:db8::1]:9001" and bare IPv4/IPv6 hosts
+ */
+export function parseAddress(address: string): { host: string; port: string | null } {
+  const trimmed = address.trim();
+  
+  if (trimmed.startsWith("[")) {
+    const close = trimmed.indexOf("]");
+    if (close > 0) {
+      const rest = trimmed.slice(close + 1);
+      return { host: trimmed.slice(1, close), port: rest.startsWith(":") && rest.length > 1 ? rest.slice(1) : null };
+    }
+  }
+  
+  // More than one colon without brackets is a bare IPv6 address
+  const parts = trimmed.split(":");
+  if (parts.length === 2) {
+    return { host: parts[0], port: parts[1] || null };
+  }
+  return { host: trimmed, port: null };
+}
+
+/**
+ * Extract IP from address string like "192.190.136.37:9001" or "[2001:db8::1]:9001"
+ * IPv6 addresses come back in canonical form so the same host always yields the same IP
  */
 export function extractIp(address: string): string {
-  return address.split(":")[0];
+  return normalizeIp(parseAddress(address).host);
 }
 
 /**
  * Extract port from address string
  */
 export function extractPort(address: string): string | null {
-  const parts = address.split(":");
-  return parts.length > 1 ? parts[1] ?? null : null;
+  return parseAddress(address).port;
+}
+
+export function isIpv6(ip: string): boolean {
+  return ip.includes(":");
 }
 
 /**
- * Generate a unique ID from IP (deterministic)
+ * Join a host and port, bracketing IPv6 hosts
  */
-export function generateNodeId(ip: string): string {
-  return `node-${ip.replace(/\./g, "-")}`;
+export function formatHostPort(ip: string, port: number | string): string {
+  return isIpv6(ip) ? `[${ip}]:${port}` : `${ip}:${port}`;
+}
+
+/**
+ * Parse an IPv6 address into its eight 16-bit groups (null if invalid)
+ * Accepts "::" compression, an embedded IPv4 tail ("::ffff:1.2.3.4") and a zone id ("fe80::1%eth0")
+ */
+export function ipv6ToGroups(ip: string): number[] | null {
+  let text = ip.trim().toLowerCase().split("%")[0];
+  
+  if (text.includes(".")) {
+    const lastColon = text.lastIndexOf(":");
+    const ipv4 = ipv4ToNumber(text.slice(lastColon + 1));
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${Math.floor(ipv4 / 65536).toString(16)}:${(ipv4 % 65536).toString(16)}`;
+  }
+  
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  
+  return groups.map(group => parseInt(group, 16));
+}
+
+/**
+ * Format IPv6 groups in canonical (RFC 5952) form: lowercase, longest zero run compressed
+ */
+function formatIpv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 1; // A single zero group is not compressed
+  
+  for (let i = 0; i < groups.length; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < groups.length && groups[end] === 0) end++;
+    if (end - i > bestLength) {
+      bestStart = i;
+      bestLength = end - i;
+    }
+    i = end;
+  }
+  
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart < 0) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
+
+/**
+ * Canonical form of an IP: IPv6 compressed and lowercased, IPv4-mapped IPv6 as plain IPv4
+ * Anything unparseable is returned trimmed but otherwise unchanged
+ */
+export function normalizeIp(ip: string): string {
+  const trimmed = ip.trim();
+  if (!isIpv6(trimmed)) return trimmed;
+  
+  const groups = ipv6ToGroups(trimmed);
+  if (!groups) return trimmed;
+  
+  // ::ffff:a.b.c.d is the IPv4 host
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return [groups[6] >> 8, groups[6] & 255, groups[7] >> 8, groups[7] & 255].join(".");
+  }
+  return formatIpv6(groups);
+}
+
+/**
+ * Canonical node key: the gossip address as "IP:port" / "[IPv6]:port" (a bare IP when it has no port)
+ */
+export function normalizeNodeKey(key: string): string {
+  const { host, port } = parseAddress(key);
+  const ip = normalizeIp(host);
+  return port ? formatHostPort(ip, port) : ip;
+}
+
+/**
+ * Convert a dotted IPv4 address to an unsigned integer (null if not IPv4)
+ */
+export function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.trim().split(".");
+  if (parts.length !== 4) return null;
+  
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = parseInt(part, 10);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+/**
+ * Parse an IPv4 CIDR block (or a bare address) into an inclusive numeric range
+ */
+export function parseIpv4Cidr(cidr: string): { start: number; end: number } | null {
+  const [address, prefixText] = cidr.trim().split("/");
+  const base = ipv4ToNumber(address);
+  const prefix = prefixText === undefined ? 32 : parseInt(prefixText, 10);
+  if (base === null || isNaN(prefix) || prefix < 0 || prefix > 32) return null;
+  
+  const size = 2 ** (32 - prefix);
+  const start = Math.floor(base / size) * size;
+  return { start, end: start + size - 1 };
+}
+
+/**
+ * Generate a unique ID from a node key (deterministic, URL-safe)
+ * "1.2.3.4:9001" -> "node-1-2-3-4-9001", "[2001:db8::1]:9001" -> "node-2001-db8--1-9001"
+ * The store assigns it once, when a node is first seen, and keeps it across restarts
+ */
+export function generateNodeId(key: string): string {
+  const { host, port } = parseAddress(key);
+  const slug = normalizeIp(host).replace(/[.:]/g, "-");
+  return `node-${slug}${port ? `-${port}` : ""}`;
 }
 
 /**
@@ -145,3 +295,12 @@ export function toNumber(value: bigint | number | string | null | undefined): nu
 export function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
+
+/**
+ * Nearest-rank percentile of an ascending-sorted array (p in 0-100)
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[clamp(rank - 1, 0, sorted.length - 1)];
+}
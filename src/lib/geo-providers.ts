@@ -0,0 +1,567 @@
+/**
+ * Xandeum Explorer - Geolocation Providers
+ * ip-api.com, a local CSV range database and a static override file, chained by priority,
+ * plus an optional offline ASN database for network owners
+ */
+
+import { promises as fs } from "fs";
+import axios from "axios";
+import logger from "./logger";
+import { sleep, ipv4ToNumber, parseIpv4Cidr, normalizeIp } from "./format";
+import type { GeoLocation, GeoSource } from "../types";
+
+/**
+ * A source of IP locations
+ * IPs missing from the result are handed to the next provider in the chain
+ */
+export interface GeoProvider {
+  name: GeoSource;
+  lookup(ips: string[]): Promise<Map<string, GeoLocation>>;
+}
+
+/**
+ * The network an IP belongs to
+ */
+export type AsnInfo = Pick<GeoLocation, "asn" | "org" | "hosting">;
+
+/**
+ * A source of network owners, consulted for located IPs that have no ASN yet
+ */
+export interface AsnProvider {
+  name: string;
+  lookup(ips: string[]): Promise<Map<string, AsnInfo>>;
+}
+
+/**
+ * A location covering a numeric IPv4 range (inclusive)
+ */
+interface GeoRange {
+  start: number;
+  end: number;
+  geo: GeoLocation;
+}
+
+/**
+ * A network owner covering a numeric IPv4 range (inclusive)
+ */
+interface AsnRange {
+  start: number;
+  end: number;
+  info: AsnInfo;
+}
+
+// ============================================
+// Hosting Detection
+// ============================================
+
+// AS organizations that only sell datacenter/cloud capacity
+const HOSTING_ORG_PATTERN = new RegExp([
+  "hetzner", "ovh", "contabo", "digitalocean", "linode", "akamai", "vultr", "choopa",
+  "amazon", "google", "microsoft", "azure", "oracle", "alibaba", "tencent",
+  "scaleway", "online s\\.a\\.s", "leaseweb", "netcup", "ionos", "strato", "hostinger",
+  "interserver", "hostwinds", "kamatera", "upcloud", "cherry servers", "latitude\\.sh",
+  "equinix", "psychz", "m247", "datacamp", "g-core", "hosting", "datacenter", "data center",
+  "cloud", "server",
+].join("|"), "i");
+
+/**
+ * Guess whether an AS organization is a hosting provider
+ * Returns undefined (unknown) rather than false for anything not recognised
+ */
+export function isHostingOrg(org: string | undefined): boolean | undefined {
+  if (!org) return undefined;
+  return HOSTING_ORG_PATTERN.test(org) ? true : undefined;
+}
+
+/**
+ * Parse an ASN written as 24940, "24940" or "AS24940"
+ */
+export function parseAsn(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isInteger(value) && value > 0 ? value : undefined;
+  if (typeof value !== "string") return undefined;
+  const match = value.trim().match(/^(?:AS)?(\d+)$/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+  if (!value) return undefined;
+  const lower = value.toLowerCase();
+  if (["1", "true", "yes"].includes(lower)) return true;
+  if (["0", "false", "no"].includes(lower)) return false;
+  return undefined;
+}
+
+/**
+ * Drop unknown fields so they do not show up as null in responses
+ */
+function compactAsnInfo(info: AsnInfo): AsnInfo {
+  const result: AsnInfo = {};
+  if (info.asn !== undefined) result.asn = info.asn;
+  if (info.org) result.org = info.org;
+  const hosting = info.hosting ?? isHostingOrg(info.org);
+  if (hosting !== undefined) result.hosting = hosting;
+  return result;
+}
+
+// ============================================
+// ip-api.com (HTTP)
+// ============================================
+
+// Rate limiting: ip-api.com allows 45 requests/minute for free tier
+const RATE_LIMIT_DELAY_MS = 1500;
+const BATCH_SIZE = 100; // ip-api.com batch endpoint limit
+const REQUEST_TIMEOUT_MS = 5000;
+
+interface IpApiResponse {
+  status: string;
+  query?: string;
+  country?: string;
+  countryCode?: string;
+  city?: string;
+  regionName?: string;
+  timezone?: string;
+  lat?: number;
+  lon?: number;
+  as?: string;     // "AS24940 Hetzner Online GmbH"
+  asname?: string; // "HETZNER-AS"
+  isp?: string;
+  org?: string;
+  hosting?: boolean;
+}
+
+/**
+ * Split ip-api's "AS24940 Hetzner Online GmbH" into number and organization
+ */
+function parseIpApiAs(item: IpApiResponse): AsnInfo {
+  const match = item.as?.match(/^AS(\d+)\s*(.*)$/i);
+  return compactAsnInfo({
+    asn: match ? parseInt(match[1], 10) : undefined,
+    org: match?.[2] || item.isp || item.asname || undefined,
+    hosting: item.hosting,
+  });
+}
+
+/**
+ * ip-api.com batch endpoint (free tier, HTTP only)
+ */
+export function createIpApiProvider(): GeoProvider {
+  return {
+    name: "ip-api",
+    
+    async lookup(ips) {
+      const results = new Map<string, GeoLocation>();
+      
+      const batches: string[][] = [];
+      for (let i = 0; i < ips.length; i += BATCH_SIZE) {
+        batches.push(ips.slice(i, i + BATCH_SIZE));
+      }
+      
+      for (const [index, batch] of batches.entries()) {
+        try {
+          const response = await axios.post<IpApiResponse[]>(
+            "http://ip-api.com/batch?fields=status,query,country,countryCode,city,regionName,timezone,lat,lon,as,asname,isp,org,hosting",
+            batch.map(ip => ({ query: ip })),
+            { timeout: REQUEST_TIMEOUT_MS * 2 }
+          );
+          
+          for (const item of response.data) {
+            if (!item.query || item.status !== "success" || !item.lat || !item.lon) continue;
+            
+            results.set(item.query, {
+              latitude: item.lat,
+              longitude: item.lon,
+              country: item.country || "Unknown",
+              countryCode: item.countryCode || "XX",
+              city: item.city || "Unknown",
+              region: item.regionName,
+              timezone: item.timezone,
+              source: "ip-api",
+              ...parseIpApiAs(item),
+            });
+          }
+        } catch (error) {
+          logger.warn(`Batch geolocation failed`, {
+            batchSize: batch.length,
+            error: (error as Error).message
+          });
+        }
+        
+        // Rate limiting between batches
+        if (index < batches.length - 1) {
+          await sleep(RATE_LIMIT_DELAY_MS);
+        }
+      }
+      
+      return results;
+    },
+  };
+}
+
+// ============================================
+// CSV Range Database (offline)
+// ============================================
+
+/**
+ * Split one CSV line, honouring double-quoted fields ("Washington, D.C.")
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  
+  return fields.map(f => f.trim());
+}
+
+/**
+ * An address column may hold a dotted IP or its integer form (IP2Location style)
+ */
+function parseRangeBound(value: string): number | null {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return ipv4ToNumber(value);
+}
+
+/**
+ * Split a CSV file into a header lookup and data rows
+ */
+function readCsv(text: string): { column: (...names: string[]) => number; rows: string[][] } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const header = lines.length > 0 ? splitCsvLine(lines[0]).map(h => h.toLowerCase()) : [];
+  
+  return {
+    column: (...names: string[]) => header.findIndex(h => names.includes(h)),
+    rows: lines.slice(1).map(splitCsvLine),
+  };
+}
+
+/**
+ * Columns shared by location and ASN databases
+ */
+function findRangeColumns(column: (...names: string[]) => number) {
+  return {
+    network: column("network", "cidr"),
+    start: column("start_ip", "ip_from", "start"),
+    end: column("end_ip", "ip_to", "end"),
+    asn: column("asn", "autonomous_system_number", "as_number"),
+    org: column("org", "as_org", "autonomous_system_organization", "as_name", "isp"),
+    hosting: column("hosting", "is_hosting"),
+  };
+}
+
+function readRange(fields: string[], columns: ReturnType<typeof findRangeColumns>): { start: number; end: number } | null {
+  if (columns.network >= 0) {
+    return parseIpv4Cidr(fields[columns.network] || "");
+  }
+  
+  const start = parseRangeBound(fields[columns.start] || "");
+  const end = parseRangeBound(fields[columns.end] || "");
+  return start !== null && end !== null ? { start, end } : null;
+}
+
+function readAsnInfo(fields: string[], columns: ReturnType<typeof findRangeColumns>): AsnInfo {
+  const field = (index: number) => (index >= 0 ? fields[index] || undefined : undefined);
+  
+  return compactAsnInfo({
+    asn: parseAsn(field(columns.asn)),
+    org: field(columns.org),
+    hosting: parseBoolean(field(columns.hosting)),
+  });
+}
+
+/**
+ * Parse a range database CSV with a header row
+ * Ranges come from a `network` column (CIDR, MaxMind GeoLite2 style) or `start_ip`/`end_ip`;
+ * locations from `latitude`, `longitude`, `country_code`, `country`, `region`, `city`, `timezone`,
+ * and optionally network owners from `asn`, `org` and `hosting`
+ */
+export function parseGeoRangeCsv(text: string): GeoRange[] {
+  const { column, rows } = readCsv(text);
+  
+  const columns = findRangeColumns(column);
+  const latCol = column("latitude", "lat");
+  const lonCol = column("longitude", "lon", "lng");
+  const countryCodeCol = column("country_code", "country_iso_code", "countrycode");
+  const countryCol = column("country", "country_name");
+  const regionCol = column("region", "region_name", "subdivision_1_name");
+  const cityCol = column("city", "city_name");
+  const timezoneCol = column("timezone", "time_zone");
+  
+  if (rows.length === 0) return [];
+  if ((columns.network < 0 && (columns.start < 0 || columns.end < 0)) || latCol < 0 || lonCol < 0) {
+    throw new Error("Geo database needs a network (or start_ip/end_ip), latitude and longitude column");
+  }
+  
+  const ranges: GeoRange[] = [];
+  let skipped = 0;
+  
+  for (const fields of rows) {
+    const field = (index: number) => (index >= 0 ? fields[index] || undefined : undefined);
+    
+    const range = readRange(fields, columns);
+    const latitude = parseFloat(fields[latCol]);
+    const longitude = parseFloat(fields[lonCol]);
+    
+    if (!range || isNaN(latitude) || isNaN(longitude)) {
+      skipped++;
+      continue;
+    }
+    
+    ranges.push({
+      start: range.start,
+      end: range.end,
+      geo: {
+        latitude,
+        longitude,
+        country: field(countryCol) || "Unknown",
+        countryCode: field(countryCodeCol) || "XX",
+        city: field(cityCol) || "Unknown",
+        region: field(regionCol),
+        timezone: field(timezoneCol),
+        source: "database",
+        ...readAsnInfo(fields, columns),
+      },
+    });
+  }
+  
+  if (skipped > 0) {
+    logger.geo(`Skipped ${skipped} unparseable database rows`);
+  }
+  
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parse an ASN database CSV (MaxMind GeoLite2-ASN style: network, autonomous_system_number,
+ * autonomous_system_organization; `start_ip`/`end_ip`, `asn`, `org` and `hosting` also work)
+ */
+export function parseAsnRangeCsv(text: string): AsnRange[] {
+  const { column, rows } = readCsv(text);
+  const columns = findRangeColumns(column);
+  
+  if (rows.length === 0) return [];
+  if ((columns.network < 0 && (columns.start < 0 || columns.end < 0)) || (columns.asn < 0 && columns.org < 0)) {
+    throw new Error("ASN database needs a network (or start_ip/end_ip) and an asn or org column");
+  }
+  
+  const ranges: AsnRange[] = [];
+  let skipped = 0;
+  
+  for (const fields of rows) {
+    const range = readRange(fields, columns);
+    const info = readAsnInfo(fields, columns);
+    
+    if (!range || (info.asn === undefined && !info.org)) {
+      skipped++;
+      continue;
+    }
+    
+    ranges.push({ start: range.start, end: range.end, info });
+  }
+  
+  if (skipped > 0) {
+    logger.geo(`Skipped ${skipped} unparseable ASN database rows`);
+  }
+  
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find the range containing an address (ranges sorted by start, non-overlapping)
+ */
+function findRange<T extends { start: number; end: number }>(ranges: T[], value: number): T | null {
+  let low = 0;
+  let high = ranges.length - 1;
+  
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid].start > value) {
+      high = mid - 1;
+    } else if (ranges[mid].end < value) {
+      low = mid + 1;
+    } else {
+      return ranges[mid];
+    }
+  }
+  return null;
+}
+
+/**
+ * Offline range database loaded from a CSV file on first lookup (IPv4 only; IPv6 falls through)
+ */
+export function createRangeDatabaseProvider(filePath: string): GeoProvider {
+  let loading: Promise<GeoRange[]> | null = null;
+  
+  const load = () => {
+    loading ??= fs.readFile(filePath, "utf8")
+      .then(text => {
+        const ranges = parseGeoRangeCsv(text);
+        logger.info(`Loaded geo database (${ranges.length} ranges)`, { file: filePath });
+        return ranges;
+      })
+      .catch(error => {
+        logger.error("Failed to load geo database", { file: filePath, error: (error as Error).message });
+        return [];
+      });
+    return loading;
+  };
+  
+  return {
+    name: "database",
+    
+    async lookup(ips) {
+      const ranges = await load();
+      const results = new Map<string, GeoLocation>();
+      
+      for (const ip of ips) {
+        const value = ipv4ToNumber(ip);
+        const match = value !== null ? findRange(ranges, value) : null;
+        if (match) {
+          results.set(ip, { ...match.geo });
+        }
+      }
+      
+      return results;
+    },
+  };
+}
+
+/**
+ * Offline ASN database loaded from a CSV file on first lookup (IPv4 only)
+ */
+export function createAsnDatabaseProvider(filePath: string): AsnProvider {
+  let loading: Promise<AsnRange[]> | null = null;
+  
+  const load = () => {
+    loading ??= fs.readFile(filePath, "utf8")
+      .then(text => {
+        const ranges = parseAsnRangeCsv(text);
+        logger.info(`Loaded ASN database (${ranges.length} ranges)`, { file: filePath });
+        return ranges;
+      })
+      .catch(error => {
+        logger.error("Failed to load ASN database", { file: filePath, error: (error as Error).message });
+        return [];
+      });
+    return loading;
+  };
+  
+  return {
+    name: "asn-database",
+    
+    async lookup(ips) {
+      const ranges = await load();
+      const results = new Map<string, AsnInfo>();
+      
+      for (const ip of ips) {
+        const value = ipv4ToNumber(ip);
+        const match = value !== null ? findRange(ranges, value) : null;
+        if (match) {
+          results.set(ip, { ...match.info });
+        }
+      }
+      
+      return results;
+    },
+  };
+}
+
+// ============================================
+// Static Overrides
+// ============================================
+
+/**
+ * Locations pinned by hand: a JSON object keyed by IP or IPv4 CIDR, e.g.
+ * { "1.2.3.4": { "latitude": 52.5, "longitude": 13.4, "country": "Germany", "countryCode": "DE", "city": "Berlin" } }
+ * Entries may also pin the network owner with `asn` (24940 or "AS24940"), `org` and `hosting`
+ * Exact IPs win over CIDR blocks, narrower blocks over wider ones
+ */
+export function createOverrideProvider(filePath: string): GeoProvider {
+  let loading: Promise<{ exact: Map<string, GeoLocation>; blocks: Array<GeoRange & { size: number }> }> | null = null;
+  
+  const load = () => {
+    loading ??= fs.readFile(filePath, "utf8")
+      .then(text => {
+        const entries = JSON.parse(text) as Record<string, Omit<GeoLocation, "source" | "asn"> & { asn?: number | string }>;
+        const exact = new Map<string, GeoLocation>();
+        const blocks: Array<GeoRange & { size: number }> = [];
+        
+        for (const [key, value] of Object.entries(entries)) {
+          if (typeof value?.latitude !== "number" || typeof value?.longitude !== "number") {
+            logger.warn(`Geo override "${key}" needs numeric latitude/longitude, ignored`);
+            continue;
+          }
+          
+          const { asn, org, hosting, ...location } = value;
+          const geo: GeoLocation = {
+            ...location,
+            country: value.country || "Unknown",
+            countryCode: value.countryCode || "XX",
+            city: value.city || "Unknown",
+            source: "override",
+            ...compactAsnInfo({
+              asn: parseAsn(asn),
+              org,
+              hosting: typeof hosting === "boolean" ? hosting : undefined,
+            }),
+          };
+          
+          const range = key.includes("/") ? parseIpv4Cidr(key) : null;
+          if (range) {
+            blocks.push({ ...range, geo, size: range.end - range.start });
+          } else {
+            exact.set(normalizeIp(key), geo);
+          }
+        }
+        
+        blocks.sort((a, b) => a.size - b.size);
+        logger.info(`Loaded geo overrides (${exact.size} IPs, ${blocks.length} blocks)`, { file: filePath });
+        return { exact, blocks };
+      })
+      .catch(error => {
+        logger.error("Failed to load geo overrides", { file: filePath, error: (error as Error).message });
+        return { exact: new Map<string, GeoLocation>(), blocks: [] };
+      });
+    return loading;
+  };
+  
+  return {
+    name: "override",
+    
+    async lookup(ips) {
+      const { exact, blocks } = await load();
+      const results = new Map<string, GeoLocation>();
+      
+      for (const ip of ips) {
+        const value = ipv4ToNumber(ip);
+        const geo = exact.get(ip)
+          ?? (value !== null ? blocks.find(b => b.start <= value && value <= b.end)?.geo : undefined);
+        if (geo) {
+          results.set(ip, { ...geo });
+        }
+      }
+      
+      return results;
+    },
+  };
+}
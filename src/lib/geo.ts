@@ -1,38 +1,132 @@
 /**
  * Xandeum Explorer - Geolocation Service
- * IP-based geolocation using ip-api.com (free tier)
+ * IP geolocation through a priority chain of providers (overrides, offline database, ip-api.com),
+ * with network owners (ASN, organization, hosting) filled in from an offline ASN database when missing
  */
 
-import axios from "axios";
 import logger from "./logger";
-import { sleep } from "./format";
-import type { GeoLocation } from "../types";
+import { normalizeIp, isIpv6, ipv6ToGroups } from "./format";
+import {
+  createIpApiProvider,
+  createRangeDatabaseProvider,
+  createOverrideProvider,
+  createAsnDatabaseProvider,
+  type GeoProvider,
+  type AsnProvider
+} from "./geo-providers";
+import type { GeoLocation, GeoSource } from "../types";
 
-// In-memory cache to avoid redundant API calls
-const geoCache = new Map<string, GeoLocation | null>();
+// Configuration
+// Provider priority, first match wins; file providers are skipped when their file is not set
+const GEO_PROVIDERS = (process.env.GEO_PROVIDERS || "override,database,ip-api")
+  .split(",")
+  .map(s => s.trim())
+  .filter(Boolean);
+const GEO_DB_FILE = process.env.GEO_DB_FILE || "";
+const GEO_OVERRIDES_FILE = process.env.GEO_OVERRIDES_FILE || "";
+const GEO_ASN_DB_FILE = process.env.GEO_ASN_DB_FILE || "";
+const GEO_CACHE_TTL_MS = parseInt(process.env.GEO_CACHE_TTL_MS || "2592000000", 10); // 30 days
+// Failed lookups are retried after this, doubling per consecutive failure up to the max
+const GEO_NEGATIVE_TTL_MS = parseInt(process.env.GEO_NEGATIVE_TTL_MS || "300000", 10); // 5 minutes
+const GEO_NEGATIVE_MAX_TTL_MS = parseInt(process.env.GEO_NEGATIVE_MAX_TTL_MS || "86400000", 10); // 24 hours
 
-// Rate limiting: ip-api.com allows 45 requests/minute for free tier
-const RATE_LIMIT_DELAY_MS = 1500;
-const BATCH_SIZE = 100; // ip-api.com batch endpoint limit
-const REQUEST_TIMEOUT_MS = 5000;
+/**
+ * A cached lookup result
+ * A failed lookup keeps the previous location (if any) until a retry succeeds
+ */
+export interface GeoCacheEntry {
+  geo: GeoLocation | null;
+  source: GeoSource | null; // Provider of geo (null when no provider placed the IP)
+  cachedAt: number;  // epoch ms of the last lookup
+  expiresAt: number; // epoch ms after which the IP is looked up again
+  failures: number;  // Consecutive failed lookups
+}
+
+export type SerializedGeoCache = Array<[string, GeoCacheEntry]>;
+
+// In-memory cache to avoid redundant lookups (private IPs are never cached)
+const geoCache = new Map<string, GeoCacheEntry>();
+
+function createDefaultProviders(): GeoProvider[] {
+  const chain: GeoProvider[] = [];
+  
+  for (const name of GEO_PROVIDERS) {
+    switch (name) {
+      case "override":
+        if (GEO_OVERRIDES_FILE) chain.push(createOverrideProvider(GEO_OVERRIDES_FILE));
+        break;
+      case "database":
+        if (GEO_DB_FILE) chain.push(createRangeDatabaseProvider(GEO_DB_FILE));
+        break;
+      case "ip-api":
+        chain.push(createIpApiProvider());
+        break;
+      default:
+        logger.warn(`Unknown geo provider "${name}", ignored`);
+    }
+  }
+  
+  return chain;
+}
 
-interface IpApiResponse {
-  status: string;
-  query?: string;
-  country?: string;
-  countryCode?: string;
-  city?: string;
-  regionName?: string;
-  timezone?: string;
-  lat?: number;
-  lon?: number;
+let providers: GeoProvider[] = createDefaultProviders();
+let asnProviders: AsnProvider[] = GEO_ASN_DB_FILE ? [createAsnDatabaseProvider(GEO_ASN_DB_FILE)] : [];
+
+/**
+ * Replace the provider chain (highest priority first)
+ */
+export function setGeoProviders(next: GeoProvider[]): void {
+  providers = next;
+}
+
+/**
+ * Replace the ASN providers (highest priority first)
+ */
+export function setAsnProviders(next: AsnProvider[]): void {
+  asnProviders = next;
+}
+
+/**
+ * Names of the active providers in priority order
+ */
+export function getGeoProviderNames(): GeoSource[] {
+  return providers.map(p => p.name);
+}
+
+export function getAsnProviderNames(): string[] {
+  return asnProviders.map(p => p.name);
+}
+
+/**
+ * Check if an IPv6 address is private/local (unparseable counts as private)
+ */
+function isPrivateIpv6(ip: string): boolean {
+  const groups = ipv6ToGroups(ip);
+  if (!groups) return true;
+  
+  // :: (unspecified) and ::1 (loopback)
+  if (groups.slice(0, 7).every(g => g === 0) && groups[7] <= 1) return true;
+  // fc00::/7 (unique local)
+  if ((groups[0] & 0xfe00) === 0xfc00) return true;
+  // fe80::/10 (link-local)
+  if ((groups[0] & 0xffc0) === 0xfe80) return true;
+  // ff00::/8 (multicast)
+  if ((groups[0] & 0xff00) === 0xff00) return true;
+  // 2001:db8::/32 (documentation)
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true;
+  
+  return false;
 }
 
 /**
  * Check if IP is private/local (should skip geolocation)
  */
 export function isPrivateIp(ip: string): boolean {
-  const parts = ip.split(".").map(Number);
+  // IPv4-mapped IPv6 normalizes to plain IPv4
+  const normalized = normalizeIp(ip);
+  if (isIpv6(normalized)) return isPrivateIpv6(normalized);
+  
+  const parts = normalized.split(".").map(Number);
   if (parts.length !== 4) return true;
   if (parts.some(p => isNaN(p))) return true;
   
@@ -50,18 +144,93 @@ export function isPrivateIp(ip: string): boolean {
   return false;
 }
 
+function isExpired(entry: GeoCacheEntry, now: number): boolean {
+  return now >= entry.expiresAt;
+}
+
+/**
+ * Backoff for an IP that has failed `failures` lookups in a row
+ */
+function negativeTtl(failures: number): number {
+  return Math.min(GEO_NEGATIVE_TTL_MS * 2 ** Math.max(0, failures - 1), GEO_NEGATIVE_MAX_TTL_MS);
+}
+
+function recordLookup(ip: string, geo: GeoLocation | null, now: number): GeoCacheEntry {
+  let entry: GeoCacheEntry;
+  
+  if (geo) {
+    entry = { geo, source: geo.source, cachedAt: now, expiresAt: now + GEO_CACHE_TTL_MS, failures: 0 };
+  } else {
+    const previous = geoCache.get(ip);
+    const failures = (previous?.failures || 0) + 1;
+    entry = {
+      geo: previous?.geo ?? null,
+      source: previous?.source ?? null,
+      cachedAt: now,
+      expiresAt: now + negativeTtl(failures),
+      failures,
+    };
+  }
+  
+  geoCache.set(ip, entry);
+  return entry;
+}
+
 /**
  * Get cached geolocation for an IP
+ * Expired locations are still returned while a refresh is pending
  */
 export function getCachedGeo(ip: string): GeoLocation | null | undefined {
+  const entry = geoCache.get(ip);
+  return entry ? entry.geo : undefined;
+}
+
+/**
+ * Get the cache entry for an IP (with timestamps and failure count)
+ */
+export function getGeoCacheEntry(ip: string): GeoCacheEntry | undefined {
   return geoCache.get(ip);
 }
 
 /**
- * Set cached geolocation for an IP
+ * Set cached geolocation for an IP (null records a failed lookup)
  */
 export function setCachedGeo(ip: string, geo: GeoLocation | null): void {
-  geoCache.set(ip, geo);
+  recordLookup(ip, geo, Date.now());
+}
+
+/**
+ * Export cache entries for persistence
+ */
+export function exportGeoCache(): SerializedGeoCache {
+  return Array.from(geoCache.entries());
+}
+
+/**
+ * Replace the cache with persisted entries
+ * Older snapshots stored bare locations: those are kept for a full TTL (ip-api ones are refreshed
+ * to pick up their network owner), their failures retried now
+ */
+export function importGeoCache(entries: Array<[string, GeoCacheEntry | GeoLocation | null]>): void {
+  const now = Date.now();
+  geoCache.clear();
+  
+  for (const [ip, value] of entries) {
+    if (isPrivateIp(ip)) continue;
+    
+    if (value && "cachedAt" in value) {
+      // ip-api locations cached before network owners were resolved are refreshed now
+      const missingAsn = value.geo?.source === "ip-api" && !("asn" in value.geo);
+      geoCache.set(ip, missingAsn ? { ...value, expiresAt: Math.min(value.expiresAt, now) } : value);
+    } else if (value) {
+      // Entries saved before providers were pluggable all came from ip-api
+      const geo: GeoLocation = { ...value, source: value.source || "ip-api" };
+      const expiresAt = geo.source === "ip-api" && !("asn" in geo) ? now : now + GEO_CACHE_TTL_MS;
+      geoCache.set(ip, { geo, source: geo.source, cachedAt: now, expiresAt, failures: 0 });
+    } else {
+      geoCache.set(ip, { geo: null, source: null, cachedAt: now, expiresAt: now, failures: 1 });
+    }
+  }
 }
 
 /**
@@ -73,68 +242,80 @@ export function clearGeoCache(): void {
 }
 
 /**
- * Get geolocation for a single IP
+ * Ask each provider in turn for the IPs the previous ones could not place
  */
-export async function getGeoLocation(ip: string): Promise<GeoLocation | null> {
-  // Check cache first
-  if (geoCache.has(ip)) {
-    return geoCache.get(ip) || null;
-  }
+async function lookupChain(ips: string[]): Promise<Map<string, GeoLocation>> {
+  const found = new Map<string, GeoLocation>();
+  let remaining = ips;
   
-  // Skip private IPs
-  if (isPrivateIp(ip)) {
-    geoCache.set(ip, null);
-    return null;
+  for (const provider of providers) {
+    if (remaining.length === 0) break;
+    
+    try {
+      const results = await provider.lookup(remaining);
+      results.forEach((geo, ip) => found.set(ip, geo));
+      remaining = remaining.filter(ip => !found.has(ip));
+    } catch (error) {
+      logger.warn(`Geo provider ${provider.name} failed`, { 
+        ips: remaining.length,
+        error: (error as Error).message 
+      });
+    }
   }
   
-  try {
-    const response = await axios.get<IpApiResponse>(
-      `http://ip-api.com/json/${ip}?fields=status,country,countryCode,city,regionName,timezone,lat,lon`,
-      { timeout: REQUEST_TIMEOUT_MS }
-    );
+  await fillNetworkOwners(found);
+  return found;
+}
+
+/**
+ * Fill in the network owner of located IPs whose provider did not know it
+ */
+async function fillNetworkOwners(found: Map<string, GeoLocation>): Promise<void> {
+  let remaining = [...found.keys()].filter(ip => found.get(ip)!.asn === undefined);
+  
+  for (const provider of asnProviders) {
+    if (remaining.length === 0) break;
     
-    if (response.data.status === "success" && response.data.lat && response.data.lon) {
-      const geo: GeoLocation = {
-        latitude: response.data.lat,
-        longitude: response.data.lon,
-        country: response.data.country || "Unknown",
-        countryCode: response.data.countryCode || "XX",
-        city: response.data.city || "Unknown",
-        region: response.data.regionName,
-        timezone: response.data.timezone,
-      };
-      
-      geoCache.set(ip, geo);
-      return geo;
+    try {
+      const results = await provider.lookup(remaining);
+      results.forEach((info, ip) => found.set(ip, { ...found.get(ip)!, ...info }));
+      remaining = remaining.filter(ip => !results.has(ip));
+    } catch (error) {
+      logger.warn(`ASN provider ${provider.name} failed`, { 
+        ips: remaining.length,
+        error: (error as Error).message 
+      });
     }
-    
-    geoCache.set(ip, null);
-    return null;
-  } catch (error) {
-    logger.geo(`Failed for IP ${ip}`, { error: (error as Error).message });
-    geoCache.set(ip, null);
-    return null;
   }
 }
 
+/**
+ * Get geolocation for a single IP
+ */
+export async function getGeoLocation(ip: string): Promise<GeoLocation | null> {
+  const results = await batchGetGeoLocation([ip]);
+  return results.get(ip) || null;
+}
+
 /**
  * Batch get geolocation for multiple IPs
- * Uses ip-api.com batch endpoint for efficiency
+ * Fresh cache entries are served as is; missing or expired IPs go through the provider chain
  */
 export async function batchGetGeoLocation(
   ips: string[]
 ): Promise<Map<string, GeoLocation | null>> {
   const results = new Map<string, GeoLocation | null>();
+  const now = Date.now();
   
-  // Filter out duplicates and already cached IPs
+  // Filter out duplicates, private and freshly cached IPs
   const uniqueIps = [...new Set(ips)].filter(ip => {
-    if (geoCache.has(ip)) {
-      results.set(ip, geoCache.get(ip) || null);
-      return false;
-    }
     if (isPrivateIp(ip)) {
       results.set(ip, null);
-      geoCache.set(ip, null);
+      return false;
+    }
+    const entry = geoCache.get(ip);
+    if (entry && !isExpired(entry, now)) {
+      results.set(ip, entry.geo);
       return false;
     }
     return true;
@@ -144,89 +325,108 @@ export async function batchGetGeoLocation(
     return results;
   }
   
-  logger.geo(`Resolving ${uniqueIps.length} IPs`);
+  logger.geo(`Resolving ${uniqueIps.length} IPs via ${getGeoProviderNames().join(" > ")}`);
   
-  // Create batches
-  const batches: string[][] = [];
-  for (let i = 0; i < uniqueIps.length; i += BATCH_SIZE) {
-    batches.push(uniqueIps.slice(i, i + BATCH_SIZE));
+  const found = await lookupChain(uniqueIps);
+  const finishedAt = Date.now();
+  for (const ip of uniqueIps) {
+    results.set(ip, recordLookup(ip, found.get(ip) || null, finishedAt).geo);
   }
   
-  for (const batch of batches) {
-    try {
-      const response = await axios.post<IpApiResponse[]>(
-        "http://ip-api.com/batch?fields=status,query,country,countryCode,city,regionName,timezone,lat,lon",
-        batch.map(ip => ({ query: ip })),
-        { timeout: REQUEST_TIMEOUT_MS * 2 }
-      );
-      
-      for (const item of response.data) {
-        if (!item.query) continue;
-        
-        if (item.status === "success" && item.lat && item.lon) {
-          const geo: GeoLocation = {
-            latitude: item.lat,
-            longitude: item.lon,
-            country: item.country || "Unknown",
-            countryCode: item.countryCode || "XX",
-            city: item.city || "Unknown",
-            region: item.regionName,
-            timezone: item.timezone,
-          };
-          results.set(item.query, geo);
-          geoCache.set(item.query, geo);
-        } else {
-          results.set(item.query, null);
-          geoCache.set(item.query, null);
-        }
-      }
-      
-      // Rate limiting between batches
-      if (batches.length > 1) {
-        await sleep(RATE_LIMIT_DELAY_MS);
-      }
-    } catch (error) {
-      logger.warn(`Batch geolocation failed`, { 
-        batchSize: batch.length,
-        error: (error as Error).message 
-      });
-      
-      // Mark failed IPs as null to prevent retries
-      for (const ip of batch) {
-        if (!results.has(ip)) {
-          results.set(ip, null);
-          geoCache.set(ip, null);
-        }
-      }
-    }
-  }
-  
-  logger.geo(`Resolved ${results.size} IPs, ${geoCache.size} total cached`);
+  logger.geo(`Resolved ${found.size}/${uniqueIps.length} IPs, ${geoCache.size} total cached`);
   return results;
 }
 
 /**
- * Get all IPs that need geolocation (not in cache)
+ * Get all IPs that need geolocation (not cached, or expired)
+ * Failed lookups come back here once their backoff has elapsed
  */
-export function getUncachedIps(ips: string[]): string[] {
-  return ips.filter(ip => !geoCache.has(ip) && !isPrivateIp(ip));
+export function getUncachedIps(ips: string[], now: number = Date.now()): string[] {
+  return ips.filter(ip => {
+    if (isPrivateIp(ip)) return false;
+    const entry = geoCache.get(ip);
+    return !entry || isExpired(entry, now);
+  });
+}
+
+/**
+ * Look up the IPs whose cache entry is missing or expired
+ */
+export async function refreshGeoLocations(ips: string[]): Promise<{ looked: number; resolved: number }> {
+  const due = getUncachedIps([...new Set(ips)]);
+  if (due.length === 0) {
+    return { looked: 0, resolved: 0 };
+  }
+  
+  await batchGetGeoLocation(due);
+  const resolved = due.filter(ip => geoCache.get(ip)?.failures === 0).length;
+  
+  return { looked: due.length, resolved };
 }
 
 /**
  * Get cache statistics
  */
-export function getGeoCacheStats(): { total: number; withLocation: number; withoutLocation: number } {
+export function getGeoCacheStats(now: number = Date.now()): { 
+  total: number; 
+  withLocation: number; 
+  withoutLocation: number;
+  bySource: Partial<Record<GeoSource, number>>;
+  withAsn: number;          // Locations that know their network owner
+  expired: number;          // Due for another lookup
+  failing: number;          // Last lookup failed (backing off)
+  staleLocations: number;   // Failing, but still serving an older location
+  failuresByCount: Record<string, number>; // Failing entries by consecutive failures
+  averageAgeMs: number | null;
+  oldestAgeMs: number | null;
+  ttlMs: number;
+  negativeTtlMs: { base: number; max: number };
+} {
   let withLocation = 0;
   let withoutLocation = 0;
+  let withAsn = 0;
+  let expired = 0;
+  let failing = 0;
+  let staleLocations = 0;
+  let totalAgeMs = 0;
+  let oldestAgeMs: number | null = null;
+  const bySource: Partial<Record<GeoSource, number>> = {};
+  const failuresByCount: Record<string, number> = {};
   
-  geoCache.forEach(geo => {
-    if (geo) withLocation++;
-    else withoutLocation++;
+  geoCache.forEach(entry => {
+    if (entry.geo) {
+      withLocation++;
+      bySource[entry.geo.source] = (bySource[entry.geo.source] || 0) + 1;
+      if (entry.geo.asn !== undefined) withAsn++;
+    } else {
+      withoutLocation++;
+    }
+    
+    if (isExpired(entry, now)) expired++;
+    if (entry.failures > 0) {
+      failing++;
+      failuresByCount[entry.failures] = (failuresByCount[entry.failures] || 0) + 1;
+      if (entry.geo) staleLocations++;
+    }
+    
+    const ageMs = now - entry.cachedAt;
+    totalAgeMs += ageMs;
+    oldestAgeMs = Math.max(oldestAgeMs ?? 0, ageMs);
   });
   
   return {
     total: geoCache.size,
     withLocation,
     withoutLocation,
+    bySource,
+    withAsn,
+    expired,
+    failing,
+    staleLocations,
+    failuresByCount,
+    averageAgeMs: geoCache.size > 0 ? Math.round(totalAgeMs / geoCache.size) : null,
+    oldestAgeMs,
+    ttlMs: GEO_CACHE_TTL_MS,
+    negativeTtlMs: { base: GEO_NEGATIVE_TTL_MS, max: GEO_NEGATIVE_MAX_TTL_MS },
   };
 }
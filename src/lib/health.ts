@@ -3,7 +3,7 @@
  * Computes node health based on multiple factors
  */
 
-import type { NodeStats, DerivedMetrics, NodeStatus } from "../types";
+import type { NodeStats, DerivedMetrics, NodeStatus, TrafficRates } from "../types";
 import { formatUptime } from "./format";
 import { clamp } from "./format";
 
@@ -141,10 +141,12 @@ export function calculateHealthScore(
 
 /**
  * Calculate all derived metrics for a node
+ * Current rates come from the sync engine's counter deltas (see lib/rates)
  */
 export function calculateDerivedMetrics(
   stats: NodeStats | null,
-  status: NodeStatus
+  status: NodeStatus,
+  rates: TrafficRates | null = null
 ): DerivedMetrics | null {
   if (!stats && status !== "online") {
     return null;
@@ -169,6 +171,8 @@ export function calculateDerivedMetrics(
     storageUtilizationPercent: Math.round(storageUtilizationPercent * 100) / 100,
     uptimeHuman: formatUptime(stats?.uptime),
     packetsPerSecond: Math.round(packetsPerSecond * 100) / 100,
+    currentPacketsPerSecond: rates?.packetsPerSecond ?? null,
+    currentBytesPerSecond: rates?.bytesPerSecond ?? null,
     healthScore,
     healthGrade: getHealthGrade(healthScore),
   };
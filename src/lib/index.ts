@@ -6,6 +6,10 @@
 export { default as logger, log } from "./logger";
 export * from "./format";
 export * from "./health";
+export * from "./rates";
+export * from "./topology";
+export * from "./drift";
 export * from "./geo";
+export * from "./geo-providers";
 export * from "./prpc";
 export * from "./ai";
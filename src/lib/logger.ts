@@ -118,6 +118,10 @@ class Logger {
     this.info(`🕷️ [Crawler] ${message}`, context);
   }
 
+  job(name: string, message: string, context?: LogContext): void {
+    this.info(`⏱️ [Job:${name}] ${message}`, context);
+  }
+
   geo(message: string, context?: LogContext): void {
     this.debug(`🌍 [Geo] ${message}`, context);
   }
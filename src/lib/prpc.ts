@@ -5,19 +5,80 @@
 
 import axios from "axios";
 import logger from "./logger";
-import { sleep } from "./format";
+import { sleep, extractIp, formatHostPort, normalizeNodeKey } from "./format";
+import { recordSchemaObservation } from "./drift";
 import { 
   PodSchema, 
   GetPodsResultSchema, 
   NodeStatsSchema,
   type Pod,
-  type NodeStats 
+  type NodeStats,
+  type NodeProbe,
+  type ProbeLatency,
+  type ProbeOutcomeType,
+  type CircuitState,
+  type CircuitBreakerStatus,
+  type DiscoveredPod,
+  type BootstrapHealth
 } from "../types";
 
 // Configuration
-const BOOTSTRAP_NODE_URL = process.env.BOOTSTRAP_NODE_URL || "http://173.212.207.32:6000/rpc";
+const BOOTSTRAP_NODE_URLS = (process.env.BOOTSTRAP_NODE_URLS || process.env.BOOTSTRAP_NODE_URL || "http://173.212.207.32:6000/rpc")
+  .split(",")
+  .map(url => url.trim())
+  .filter(Boolean);
+const BOOTSTRAP_NODE_URL = BOOTSTRAP_NODE_URLS[0];
+const BOOTSTRAP_MODE: "parallel" | "failover" = process.env.BOOTSTRAP_MODE === "failover" ? "failover" : "parallel";
 const RPC_TIMEOUT_MS = 3000;
-const STATS_PORT = 6000;
+// RPC ports tried in order when a node's endpoint is not yet known
+const RPC_PORT_CANDIDATES = (process.env.RPC_PORT_CANDIDATES || "6000")
+  .split(",")
+  .map(port => parseInt(port.trim(), 10))
+  .filter(port => !isNaN(port));
+const STATS_PORT = RPC_PORT_CANDIDATES[0] ?? 6000;
+// Per-pod RPC port overrides: "ip:gossipPort=rpcPort", "[ipv6]:gossipPort=rpcPort" or "ip=rpcPort", comma-separated
+const RPC_PORT_OVERRIDES = new Map<string, number>(
+  (process.env.RPC_PORT_OVERRIDES || "")
+    .split(",")
+    .map(entry => entry.trim().split("="))
+    .filter(([key, port]) => key && port && !isNaN(parseInt(port, 10)))
+    .map(([key, port]) => [normalizeNodeKey(key), parseInt(port, 10)])
+);
+// Methods fetched alongside get-stats in the same batch request
+const PROBE_EXTRA_METHODS = (process.env.PROBE_EXTRA_METHODS ?? "get-version")
+  .split(",")
+  .map(method => method.trim())
+  .filter(Boolean);
+
+// Monotonic JSON-RPC ids (Date.now() collides for calls in the same millisecond)
+let nextRequestId = 1;
+
+// Endpoints that rejected a batch array; probed one method at a time from then on
+const batchUnsupported = new Set<string>();
+
+// Circuit breaker: consecutive transport failures before an endpoint is skipped
+const BREAKER_FAILURE_THRESHOLD = parseInt(process.env.BREAKER_FAILURE_THRESHOLD || "5", 10);
+// How long an open breaker rejects calls before letting a trial call through
+const BREAKER_RESET_MS = parseInt(process.env.BREAKER_RESET_MS || "60000", 10);
+const BREAKER_HALF_OPEN_MAX_CALLS = parseInt(process.env.BREAKER_HALF_OPEN_MAX_CALLS || "1", 10);
+// Bulkhead: max concurrent pRPC requests across all endpoints
+const PRPC_MAX_IN_FLIGHT = parseInt(process.env.PRPC_MAX_IN_FLIGHT || "64", 10);
+
+// Per-bootstrap health records
+const bootstrapHealth = new Map<string, BootstrapHealth>(
+  BOOTSTRAP_NODE_URLS.map(url => [url, {
+    url,
+    status: "unknown",
+    lastSuccess: null,
+    lastFailure: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    totalRequests: 0,
+    totalFailures: 0,
+    lastPodCount: 0,
+    lastDurationMs: null,
+  }])
+);
 
 interface JsonRpcRequest {
   jsonrpc: "2.0";
@@ -33,6 +94,236 @@ interface JsonRpcResponse<T> {
   error?: { code: number; message: string; data?: unknown } | null;
 }
 
+/**
+ * One method call inside a batch request
+ */
+export interface PrpcCall {
+  method: string;
+  params?: unknown[];
+}
+
+/**
+ * A node to probe: its store key, gossip address and any RPC endpoint already discovered
+ */
+export interface ProbeTarget {
+  key: string;
+  address: string;
+  rpcEndpoint?: string | null;
+  rpcPort?: number | null; // RPC port the pod advertises in gossip
+  claimed?: string[]; // Endpoints owned by other pods on the same IP
+  version?: string | null; // Gossip-reported version, used to attribute schema drift
+}
+
+/**
+ * Outcome of one call in a batch, in the same order as the calls
+ */
+export interface PrpcCallResult {
+  method: string;
+  result?: unknown;
+  error?: string;
+}
+
+function nextId(): number {
+  return nextRequestId++;
+}
+
+function toRpcError(error: unknown, url: string): unknown {
+  if (axios.isAxiosError(error)) {
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new Error(`RPC timeout: ${url}`);
+    }
+    if (error.code === "ECONNREFUSED") {
+      return new Error(`Connection refused: ${url}`);
+    }
+  }
+  return error;
+}
+
+// ============================================
+// Circuit Breaker & Bulkhead
+// ============================================
+
+interface BreakerRecord {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  halfOpenCalls: number;
+  trips: number;
+  lastFailure: number | null;
+  lastError: string | null;
+}
+
+// Only endpoints that have failed (and bootstraps) get a record; healthy peers are implicitly closed
+const breakers = new Map<string, BreakerRecord>();
+
+let inFlight = 0;
+const inFlightWaiters: Array<() => void> = [];
+
+function createBreaker(): BreakerRecord {
+  return {
+    state: "closed",
+    consecutiveFailures: 0,
+    openedAt: null,
+    halfOpenCalls: 0,
+    trips: 0,
+    lastFailure: null,
+    lastError: null,
+  };
+}
+
+/**
+ * Check whether a call to the endpoint may proceed, moving open breakers to half-open once they cool down
+ */
+function acquireBreaker(url: string): void {
+  const breaker = breakers.get(url);
+  if (!breaker || breaker.state === "closed") return;
+  
+  if (breaker.state === "open") {
+    if (Date.now() - (breaker.openedAt ?? 0) < BREAKER_RESET_MS) {
+      throw new Error(`Circuit open: ${url}`);
+    }
+    breaker.state = "half_open";
+    breaker.halfOpenCalls = 0;
+  }
+  
+  if (breaker.halfOpenCalls >= BREAKER_HALF_OPEN_MAX_CALLS) {
+    throw new Error(`Circuit open: ${url} (trial call in progress)`);
+  }
+  breaker.halfOpenCalls++;
+}
+
+function recordBreakerSuccess(url: string): void {
+  const breaker = breakers.get(url);
+  if (!breaker) return;
+  
+  if (BOOTSTRAP_NODE_URLS.includes(url)) {
+    Object.assign(breaker, { state: "closed", consecutiveFailures: 0, openedAt: null, halfOpenCalls: 0 });
+  } else {
+    breakers.delete(url);
+  }
+}
+
+function recordBreakerFailure(url: string, error: unknown): void {
+  const breaker = breakers.get(url) || createBreaker();
+  breakers.set(url, breaker);
+  
+  breaker.consecutiveFailures++;
+  breaker.lastFailure = Date.now();
+  breaker.lastError = error instanceof Error ? error.message : String(error);
+  
+  const wasTrial = breaker.state === "half_open";
+  if (wasTrial || breaker.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) {
+    if (breaker.state !== "open") {
+      breaker.trips++;
+      // Dead peers are routine; only a failing bootstrap deserves a warning
+      const context = { failures: breaker.consecutiveFailures };
+      if (BOOTSTRAP_NODE_URLS.includes(url)) {
+        logger.warn(`Circuit opened for ${url}`, context);
+      } else {
+        logger.debug(`Circuit opened for ${url}`, context);
+      }
+    }
+    breaker.state = "open";
+    breaker.openedAt = Date.now();
+    breaker.halfOpenCalls = 0;
+  }
+}
+
+async function acquireInFlight(): Promise<void> {
+  if (inFlight < PRPC_MAX_IN_FLIGHT) {
+    inFlight++;
+    return;
+  }
+  // The releasing call hands its slot straight to the next waiter
+  await new Promise<void>(resolve => inFlightWaiters.push(resolve));
+}
+
+function releaseInFlight(): void {
+  const next = inFlightWaiters.shift();
+  if (next) {
+    next();
+  } else {
+    inFlight--;
+  }
+}
+
+/**
+ * POST a JSON-RPC body through the endpoint's breaker and the global in-flight cap
+ * Only transport failures (no HTTP response) count against the breaker
+ */
+async function postRpc<T>(url: string, body: unknown, timeout: number): Promise<T> {
+  acquireBreaker(url);
+  await acquireInFlight();
+  
+  try {
+    const response = await axios.post<T>(
+      url,
+      body,
+      { 
+        headers: { "content-type": "application/json" },
+        timeout,
+      }
+    );
+    recordBreakerSuccess(url);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      recordBreakerSuccess(url);
+    } else {
+      recordBreakerFailure(url, toRpcError(error, url));
+    }
+    throw error;
+  } finally {
+    releaseInFlight();
+  }
+}
+
+/**
+ * Get breaker states for bootstraps and every endpoint that is not fully closed
+ */
+export function getCircuitBreakerStates(): {
+  config: { failureThreshold: number; resetMs: number; halfOpenMaxCalls: number; maxInFlight: number };
+  inFlight: number;
+  queued: number;
+  summary: Record<CircuitState, number>;
+  endpoints: CircuitBreakerStatus[];
+} {
+  const endpoints: CircuitBreakerStatus[] = [];
+  const summary: Record<CircuitState, number> = { closed: 0, open: 0, half_open: 0 };
+  
+  const urls = new Set([...BOOTSTRAP_NODE_URLS, ...breakers.keys()]);
+  for (const url of urls) {
+    const breaker = breakers.get(url) || createBreaker();
+    summary[breaker.state]++;
+    endpoints.push({
+      url,
+      state: breaker.state,
+      consecutiveFailures: breaker.consecutiveFailures,
+      openedAt: breaker.openedAt ? new Date(breaker.openedAt) : null,
+      lastFailure: breaker.lastFailure ? new Date(breaker.lastFailure) : null,
+      lastError: breaker.lastError,
+      trips: breaker.trips,
+    });
+  }
+  
+  return {
+    config: {
+      failureThreshold: BREAKER_FAILURE_THRESHOLD,
+      resetMs: BREAKER_RESET_MS,
+      halfOpenMaxCalls: BREAKER_HALF_OPEN_MAX_CALLS,
+      maxInFlight: PRPC_MAX_IN_FLIGHT,
+    },
+    inFlight,
+    queued: inFlightWaiters.length,
+    summary,
+    endpoints,
+  };
+}
+
+// ============================================
+// JSON-RPC Calls
+// ============================================
+
 /**
  * Generic JSON-RPC call to a pNode
  */
@@ -44,92 +335,412 @@ export async function callPrpc<T>(
 ): Promise<T> {
   const request: JsonRpcRequest = {
     jsonrpc: "2.0",
-    id: Date.now(),
+    id: nextId(),
     method,
     params,
   };
   
   try {
-    const response = await axios.post<JsonRpcResponse<T>>(
-      url,
-      request,
-      { 
-        headers: { "content-type": "application/json" },
-        timeout,
-      }
-    );
+    const response = await postRpc<JsonRpcResponse<T>>(url, request, timeout);
     
-    if (response.data.error) {
-      throw new Error(`pRPC error ${response.data.error.code}: ${response.data.error.message}`);
+    if (response.error) {
+      throw new Error(`pRPC error ${response.error.code}: ${response.error.message}`);
     }
     
-    return response.data.result as T;
+    return response.result as T;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.code === "ECONNABORTED") {
-        throw new Error(`RPC timeout: ${url}`);
-      }
-      if (error.code === "ECONNREFUSED") {
-        throw new Error(`Connection refused: ${url}`);
-      }
+    throw toRpcError(error, url);
+  }
+}
+
+/**
+ * JSON-RPC 2.0 batch call: several methods in one HTTP round-trip
+ * Responses are matched back to calls by id; a call with no response gets an error
+ */
+export async function callPrpcBatch(
+  calls: PrpcCall[],
+  url: string = BOOTSTRAP_NODE_URL,
+  timeout: number = RPC_TIMEOUT_MS
+): Promise<PrpcCallResult[]> {
+  const requests: JsonRpcRequest[] = calls.map(call => ({
+    jsonrpc: "2.0",
+    id: nextId(),
+    method: call.method,
+    params: call.params ?? [],
+  }));
+  
+  let data: unknown;
+  try {
+    data = await postRpc<unknown>(url, requests, timeout);
+  } catch (error) {
+    // Some servers reject an array body outright instead of answering per call
+    if (axios.isAxiosError(error) && error.response && error.response.status >= 400 && error.response.status < 500) {
+      throw new Error(`pRPC batch not supported: ${url}`);
     }
-    throw error;
+    throw toRpcError(error, url);
   }
+  
+  // Servers without batch support answer with a single error object
+  if (!Array.isArray(data)) {
+    throw new Error(`pRPC batch not supported: ${url}`);
+  }
+  
+  const byId = new Map<number | string, JsonRpcResponse<unknown>>();
+  for (const response of data as JsonRpcResponse<unknown>[]) {
+    if (response && response.id !== undefined && response.id !== null) {
+      byId.set(response.id, response);
+    }
+  }
+  
+  return requests.map(request => {
+    const response = byId.get(request.id);
+    if (!response) {
+      return { method: request.method, error: "No response for request" };
+    }
+    if (response.error) {
+      return { method: request.method, error: `pRPC error ${response.error.code}: ${response.error.message}` };
+    }
+    return { method: request.method, result: response.result };
+  });
 }
 
 /**
- * Get all pods (nodes) from the bootstrap node
+ * Get pods from a single gossip endpoint
  */
-export async function getPods(): Promise<Pod[]> {
-  logger.debug("Fetching pods from bootstrap node", { url: BOOTSTRAP_NODE_URL });
+export async function getPodsFrom(url: string): Promise<Pod[]> {
+  logger.debug("Fetching pods", { url });
+  
+  const result = await callPrpc<unknown>("get-pods", [], url);
+  // Record per-pod shape before zod strips unknown keys
+  const rawPods = (result as { pods?: unknown } | null)?.pods;
+  if (Array.isArray(rawPods)) {
+    for (const pod of rawPods) {
+      const version = (pod as { version?: unknown } | null)?.version;
+      recordSchemaObservation("get-pods", PodSchema, pod, typeof version === "string" ? version : null);
+    }
+  }
   
-  const result = await callPrpc<unknown>("get-pods", [], BOOTSTRAP_NODE_URL);
   const parsed = GetPodsResultSchema.safeParse(result);
   
   if (!parsed.success) {
     logger.error("get-pods validation failed", { 
+      url,
       errors: parsed.error.format() 
     });
     throw new Error("get-pods result validation failed");
   }
   
-  logger.debug(`Retrieved ${parsed.data.pods.length} pods`);
+  logger.debug(`Retrieved ${parsed.data.pods.length} pods`, { url });
   return parsed.data.pods;
 }
 
 /**
- * Get stats for a specific node by IP
+ * Query one bootstrap and update its health record
  */
-export async function getNodeStats(
+async function getPodsFromBootstrap(url: string): Promise<Pod[]> {
+  const health = bootstrapHealth.get(url)!;
+  const startTime = Date.now();
+  health.totalRequests++;
+  
+  try {
+    const pods = await getPodsFrom(url);
+    health.status = "healthy";
+    health.lastSuccess = new Date();
+    health.consecutiveFailures = 0;
+    health.lastPodCount = pods.length;
+    return pods;
+  } catch (error) {
+    health.status = "failing";
+    health.lastFailure = new Date();
+    health.lastError = (error as Error).message;
+    health.consecutiveFailures++;
+    health.totalFailures++;
+    logger.warn(`Bootstrap failed: ${url}`, { error: health.lastError });
+    throw error;
+  } finally {
+    health.lastDurationMs = Date.now() - startTime;
+  }
+}
+
+/**
+ * Merge pod lists from several sources by address, keeping the freshest
+ * record and the union of sources that reported it
+ */
+export function mergePods(results: Array<{ source: string; pods: Pod[] }>): DiscoveredPod[] {
+  const merged = new Map<string, DiscoveredPod>();
+  
+  for (const { source, pods } of results) {
+    for (const pod of pods) {
+      const existing = merged.get(pod.address);
+      
+      if (!existing) {
+        merged.set(pod.address, { ...pod, reportedBy: [source] });
+        continue;
+      }
+      
+      const reportedBy = existing.reportedBy.includes(source)
+        ? existing.reportedBy
+        : [...existing.reportedBy, source];
+      const newer = (pod.last_seen_timestamp ?? 0) > (existing.last_seen_timestamp ?? 0);
+      
+      merged.set(pod.address, newer
+        ? { ...pod, pubkey: pod.pubkey ?? existing.pubkey, version: pod.version ?? existing.version, reportedBy }
+        : { ...existing, reportedBy }
+      );
+    }
+  }
+  
+  return Array.from(merged.values());
+}
+
+/**
+ * Get a pNode's own gossip view (get-pods on its RPC port)
+ */
+export async function getPeerPods(ip: string, url: string = buildRpcUrl(ip, STATS_PORT)): Promise<Pod[]> {
+  return getPodsFrom(url);
+}
+
+/**
+ * Get all pods (nodes) from the configured bootstrap nodes
+ * parallel: query every bootstrap and merge; failover: first healthy answer wins
+ */
+export async function getPods(): Promise<DiscoveredPod[]> {
+  if (BOOTSTRAP_MODE === "failover") {
+    // Try bootstraps with the fewest consecutive failures first
+    const ordered = [...bootstrapHealth.values()]
+      .sort((a, b) => a.consecutiveFailures - b.consecutiveFailures)
+      .map(h => h.url);
+    
+    for (const url of ordered) {
+      try {
+        const pods = await getPodsFromBootstrap(url);
+        return mergePods([{ source: url, pods }]);
+      } catch {
+        continue;
+      }
+    }
+    throw new Error(`All ${ordered.length} bootstrap nodes failed`);
+  }
+  
+  const settled = await Promise.allSettled(
+    BOOTSTRAP_NODE_URLS.map(async url => ({ source: url, pods: await getPodsFromBootstrap(url) }))
+  );
+  
+  const results = settled
+    .filter((r): r is PromiseFulfilledResult<{ source: string; pods: Pod[] }> => r.status === "fulfilled")
+    .map(r => r.value);
+  
+  if (results.length === 0) {
+    throw new Error(`All ${BOOTSTRAP_NODE_URLS.length} bootstrap nodes failed`);
+  }
+  
+  return mergePods(results);
+}
+
+/**
+ * Get health records for all configured bootstrap nodes
+ */
+export function getBootstrapHealth(): BootstrapHealth[] {
+  return BOOTSTRAP_NODE_URLS.map(url => ({ ...bootstrapHealth.get(url)! }));
+}
+
+const UNREACHABLE_CODES = ["ENOTFOUND", "EHOSTUNREACH", "ENETUNREACH", "EAI_AGAIN"];
+// The host accepted the connection and then dropped it: worth another attempt
+const TRANSIENT_CODES = ["ECONNRESET"];
+
+function isTransientError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = axios.isAxiosError(error) ? error.code : undefined;
+  return (code !== undefined && TRANSIENT_CODES.includes(code)) || TRANSIENT_CODES.some(c => message.includes(c));
+}
+
+/**
+ * Classify a probe failure into an outcome type
+ */
+export function classifyProbeError(error: unknown): ProbeOutcomeType {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = axios.isAxiosError(error) ? error.code : undefined;
+  
+  if (message.startsWith("RPC timeout")) return "timeout";
+  // Skipped by an open breaker: the endpoint has been failing at the transport level
+  if (message.startsWith("Circuit open")) return "unreachable";
+  if (message.startsWith("Connection refused") || message.includes("ECONNREFUSED")) return "refused";
+  if ((code && UNREACHABLE_CODES.includes(code)) || UNREACHABLE_CODES.some(c => message.includes(c))) {
+    return "unreachable";
+  }
+  // Anything that got an HTTP/JSON-RPC answer back is the node's RPC misbehaving
+  if (message.startsWith("pRPC") || message.startsWith("No response") || (axios.isAxiosError(error) && error.response)) {
+    return "rpc_error";
+  }
+  return "unreachable";
+}
+
+/**
+ * Extract a version string from a get-version result
+ */
+function parseVersionResult(result: unknown): string | null {
+  if (typeof result === "string") {
+    return result;
+  }
+  if (result && typeof result === "object" && typeof (result as { version?: unknown }).version === "string") {
+    return (result as { version: string }).version;
+  }
+  return null;
+}
+
+/**
+ * Fetch get-stats plus the extra probe methods from a node
+ * Uses one batch request, falling back to a plain get-stats call for endpoints without batch support
+ */
+async function fetchProbe(url: string): Promise<{ stats: unknown; extras: Record<string, unknown> }> {
+  if (PROBE_EXTRA_METHODS.length === 0 || batchUnsupported.has(url)) {
+    return { stats: await callPrpc<unknown>("get-stats", [], url, RPC_TIMEOUT_MS), extras: {} };
+  }
+  
+  let results: PrpcCallResult[];
+  try {
+    results = await callPrpcBatch(
+      [{ method: "get-stats" }, ...PROBE_EXTRA_METHODS.map(method => ({ method }))],
+      url,
+      RPC_TIMEOUT_MS
+    );
+  } catch (error) {
+    if ((error as Error).message.startsWith("pRPC batch not supported")) {
+      batchUnsupported.add(url);
+      return fetchProbe(url);
+    }
+    throw error;
+  }
+  
+  const [statsResult, ...extraResults] = results;
+  if (statsResult.error) {
+    throw new Error(statsResult.error);
+  }
+  
+  const extras: Record<string, unknown> = {};
+  for (const extra of extraResults) {
+    if (!extra.error) extras[extra.method] = extra.result;
+  }
+  
+  return { stats: statsResult.result, extras };
+}
+
+/**
+ * Build a node's RPC URL (IPv6 hosts are bracketed)
+ */
+export function buildRpcUrl(ip: string, port: number): string {
+  return `http://${formatHostPort(ip, port)}/rpc`;
+}
+
+/**
+ * RPC endpoints to try for a pod, in order
+ * An override wins outright; otherwise the remembered endpoint goes first, then the port the
+ * pod advertises, then the port candidates that sibling pods on the same IP have not claimed
+ */
+export function getRpcEndpointCandidates(
+  address: string,
+  known: string | null = null,
+  claimed: string[] = [],
+  advertisedPort: number | null = null
+): string[] {
+  const ip = extractIp(address);
+  const override = RPC_PORT_OVERRIDES.get(normalizeNodeKey(address)) ?? RPC_PORT_OVERRIDES.get(ip);
+  if (override !== undefined) {
+    return [buildRpcUrl(ip, override)];
+  }
+  
+  // The pod's own endpoints are tried even when a sibling has claimed the same URL
+  const own = [known, advertisedPort ? buildRpcUrl(ip, advertisedPort) : null]
+    .filter((url, index, list): url is string => url !== null && list.indexOf(url) === index);
+  const fallbacks = RPC_PORT_CANDIDATES
+    .map(port => buildRpcUrl(ip, port))
+    .filter(url => !own.includes(url) && !claimed.includes(url));
+  
+  return [...own, ...fallbacks];
+}
+
+/**
+ * Probe a node, trying each RPC endpoint until one answers
+ * Only a refused connection moves on to the next port; timeouts and unreachable hosts
+ * would fail the same way on every port
+ */
+export async function probeNode(
   ip: string,
-  maxRetries: number = 2
-): Promise<NodeStats | null> {
-  const url = `http://${ip}:${STATS_PORT}/rpc`;
+  maxRetries: number = 2,
+  endpoints: string[] = getRpcEndpointCandidates(ip),
+  knownVersion: string | null = null
+): Promise<NodeProbe> {
+  let probe: NodeProbe | null = null;
+  
+  for (const url of endpoints) {
+    probe = await probeEndpoint(ip, url, maxRetries, knownVersion);
+    if (probe.outcome !== "refused") break;
+  }
+  
+  return probe ?? {
+    stats: null,
+    version: null,
+    extras: {},
+    latency: { rttMs: null, attempts: 0, timeoutMs: RPC_TIMEOUT_MS },
+    outcome: "no_candidate",
+    error: "No RPC endpoint candidates (every candidate port is claimed by another pod on this IP)",
+    endpoint: null,
+    respondedAt: null,
+  };
+}
+
+/**
+ * Probe one RPC endpoint: stats plus any extra methods, in one round-trip where supported
+ */
+async function probeEndpoint(
+  ip: string,
+  url: string,
+  maxRetries: number,
+  knownVersion: string | null
+): Promise<NodeProbe> {
+  const latency: ProbeLatency = { rttMs: null, attempts: 0, timeoutMs: RPC_TIMEOUT_MS };
+  const failed = (outcome: ProbeOutcomeType, error: string): NodeProbe => 
+    ({ stats: null, version: null, extras: {}, latency, outcome, error, endpoint: url, respondedAt: null });
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    latency.attempts = attempt;
+    const attemptStart = Date.now();
+    
     try {
-      const result = await callPrpc<unknown>("get-stats", [], url, RPC_TIMEOUT_MS);
+      const { stats, extras } = await fetchProbe(url);
+      const respondedAt = Date.now();
+      latency.rttMs = respondedAt - attemptStart;
+      
+      const version = parseVersionResult(extras["get-version"]);
+      recordSchemaObservation("get-stats", NodeStatsSchema, stats, version || knownVersion);
       
-      const parsed = NodeStatsSchema.safeParse(result);
+      const parsed = NodeStatsSchema.safeParse(stats);
       if (!parsed.success) {
         logger.debug(`Stats validation failed for ${ip}`, { 
           errors: parsed.error.format() 
         });
-        return null;
+        const fields = parsed.error.issues.map(issue => issue.path.join(".")).join(", ");
+        return failed("invalid_schema", `Stats failed validation: ${fields}`);
       }
       
-      return parsed.data;
+      return {
+        stats: parsed.data,
+        version,
+        extras,
+        latency,
+        outcome: "ok",
+        error: null,
+        endpoint: url,
+        respondedAt,
+      };
     } catch (error) {
       const err = error as Error;
+      const outcome = classifyProbeError(error);
       
-      // Don't retry on certain errors
-      if (
-        err.message.includes("ECONNREFUSED") ||
-        err.message.includes("ENOTFOUND") ||
-        err.message.includes("EHOSTUNREACH")
-      ) {
-        logger.debug(`Node unreachable: ${ip}`);
-        return null;
+      // Don't retry when the host is down or nothing is listening (a reset connection is retried)
+      if ((outcome === "refused" || outcome === "unreachable") && !isTransientError(error)) {
+        logger.debug(`Node unreachable: ${ip}`, { outcome });
+        return failed(outcome, err.message);
       }
       
       // Retry on timeout or other errors
@@ -139,31 +750,49 @@ export async function getNodeStats(
       }
       
       logger.debug(`Failed to get stats for ${ip} after ${maxRetries} attempts`);
-      return null;
+      return failed(outcome, err.message);
     }
   }
   
-  return null;
+  return failed("unreachable", "No probe attempts made");
 }
 
 /**
- * Batch get stats for multiple nodes with concurrency control
+ * Get stats for a specific node by IP
  */
-export async function batchGetNodeStats(
-  ips: string[],
-  concurrency: number = 20
-): Promise<Map<string, NodeStats | null>> {
-  const results = new Map<string, NodeStats | null>();
+export async function getNodeStats(
+  ip: string,
+  maxRetries: number = 2
+): Promise<NodeStats | null> {
+  return (await probeNode(ip, maxRetries)).stats;
+}
+
+/**
+ * Batch probe multiple nodes with concurrency control
+ */
+export async function batchProbeNodes(
+  targets: ProbeTarget[],
+  concurrency: number = 20,
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, NodeProbe>> {
+  const results = new Map<string, NodeProbe>();
   
   // Dynamic import for p-limit (ESM module)
   const pLimit = (await import("p-limit")).default;
   const limit = pLimit(concurrency);
   
-  const promises = ips.map(ip => 
+  const promises = targets.map(target => 
     limit(async () => {
-      const stats = await getNodeStats(ip, 2);
-      results.set(ip, stats);
-      return { ip, stats };
+      const endpoints = getRpcEndpointCandidates(
+        target.address, 
+        target.rpcEndpoint, 
+        target.claimed, 
+        target.rpcPort ?? null
+      );
+      const probe = await probeNode(extractIp(target.address), 2, endpoints, target.version ?? null);
+      results.set(target.key, probe);
+      onProgress?.(results.size, targets.length);
+      return { key: target.key, probe };
     })
   );
   
@@ -172,6 +801,19 @@ export async function batchGetNodeStats(
   return results;
 }
 
+/**
+ * Batch get stats for multiple nodes with concurrency control
+ */
+export async function batchGetNodeStats(
+  ips: string[],
+  concurrency: number = 20
+): Promise<Map<string, NodeStats | null>> {
+  const probes = await batchProbeNodes(ips.map(ip => ({ key: ip, address: ip })), concurrency);
+  const results = new Map<string, NodeStats | null>();
+  probes.forEach((probe, ip) => results.set(ip, probe.stats));
+  return results;
+}
+
 /**
  * Check if a node's RPC is accessible
  */
@@ -187,9 +829,20 @@ export async function isNodeReachable(ip: string): Promise<boolean> {
 /**
  * Get bootstrap node info
  */
-export function getBootstrapInfo(): { url: string; port: number } {
+export function getBootstrapInfo(): { 
+  url: string; 
+  urls: string[]; 
+  mode: "parallel" | "failover"; 
+  port: number;
+  rpcPortCandidates: number[];
+  rpcPortOverrides: Record<string, number>;
+} {
   return {
     url: BOOTSTRAP_NODE_URL,
+    urls: BOOTSTRAP_NODE_URLS,
+    mode: BOOTSTRAP_MODE,
     port: STATS_PORT,
+    rpcPortCandidates: RPC_PORT_CANDIDATES,
+    rpcPortOverrides: Object.fromEntries(RPC_PORT_OVERRIDES),
   };
 }
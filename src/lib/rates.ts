@@ -0,0 +1,86 @@
+/**
+ * Xandeum Explorer - Traffic Rate Calculator
+ * Derives per-interval rates from cumulative pNode counters
+ */
+
+import type { NodeStats, CounterSample, TrafficRates } from "../types";
+
+/**
+ * Capture the cumulative counters from a stats response
+ */
+export function sampleCounters(stats: NodeStats, timestamp: number = Date.now()): CounterSample {
+  return {
+    timestamp,
+    packetsSent: stats.packets_sent,
+    packetsReceived: stats.packets_received,
+    totalBytes: stats.total_bytes,
+    uptime: stats.uptime,
+  };
+}
+
+/**
+ * Detect a node restart between two samples
+ * Counters only grow while a process lives, so any decrease (or a falling uptime) means a restart
+ */
+export function isRestart(prev: CounterSample, curr: CounterSample): boolean {
+  return (
+    curr.uptime < prev.uptime ||
+    curr.packetsSent < prev.packetsSent ||
+    curr.packetsReceived < prev.packetsReceived ||
+    curr.totalBytes < prev.totalBytes
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function buildRates(
+  sent: number,
+  received: number,
+  bytes: number,
+  intervalSeconds: number
+): TrafficRates {
+  return {
+    packetsSentPerSecond: round(sent / intervalSeconds),
+    packetsReceivedPerSecond: round(received / intervalSeconds),
+    packetsPerSecond: round((sent + received) / intervalSeconds),
+    bytesPerSecond: round(bytes / intervalSeconds),
+    intervalSeconds: round(intervalSeconds),
+  };
+}
+
+/**
+ * Calculate rates between the previous and current sample
+ * After a restart the counters started from zero, so the rate is taken over the new uptime
+ */
+export function calculateTrafficRates(
+  prev: CounterSample | undefined,
+  curr: CounterSample
+): { rates: TrafficRates | null; restarted: boolean } {
+  if (!prev) {
+    return { rates: null, restarted: false };
+  }
+  
+  if (isRestart(prev, curr)) {
+    const rates = curr.uptime > 0
+      ? buildRates(curr.packetsSent, curr.packetsReceived, curr.totalBytes, curr.uptime)
+      : null;
+    return { rates, restarted: true };
+  }
+  
+  const intervalSeconds = (curr.timestamp - prev.timestamp) / 1000;
+  if (intervalSeconds <= 0) {
+    return { rates: null, restarted: false };
+  }
+  
+  return {
+    rates: buildRates(
+      curr.packetsSent - prev.packetsSent,
+      curr.packetsReceived - prev.packetsReceived,
+      curr.totalBytes - prev.totalBytes,
+      intervalSeconds
+    ),
+    restarted: false,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Xandeum Explorer - Gossip Topology
+ * Builds the who-knows-whom graph from each node's reporting peers
+ */
+
+import type {
+  XandeumNode,
+  TopologyNode,
+  TopologyEdge,
+  TopologyComponent,
+  TopologyGraph,
+  DegreeStats
+} from "../types";
+
+/**
+ * Bootstrap sources are recorded as RPC URLs, peers as bare IPs
+ */
+function isBootstrapSource(source: string): boolean {
+  return source.includes("://");
+}
+
+function calculateDegreeStats(values: number[]): DegreeStats {
+  if (values.length === 0) {
+    return { min: 0, max: 0, avg: 0, median: 0 };
+  }
+  
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  const avg = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    avg: Math.round(avg * 100) / 100,
+    median,
+  };
+}
+
+/**
+ * Find connected components, treating gossip edges as undirected
+ */
+function findComponents(keys: string[], neighbors: Map<string, Set<string>>): TopologyComponent[] {
+  const visited = new Set<string>();
+  const components: string[][] = [];
+  
+  for (const start of keys) {
+    if (visited.has(start) || !neighbors.has(start)) continue;
+    
+    const members: string[] = [];
+    const queue = [start];
+    visited.add(start);
+    
+    while (queue.length > 0) {
+      const key = queue.shift()!;
+      members.push(key);
+      neighbors.get(key)?.forEach(next => {
+        if (!visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    
+    components.push(members);
+  }
+  
+  return components
+    .sort((a, b) => b.length - a.length)
+    .map((keys, id) => ({ id, size: keys.length, keys: keys.sort() }));
+}
+
+/**
+ * Build the gossip topology graph
+ * Edges point from a reporting peer to the node it listed; bootstraps are not graph nodes
+ */
+export function buildTopology(nodes: XandeumNode[]): TopologyGraph {
+  // Peers report by host IP; attribute a report to the pod answering RPC on that host
+  const keyByHost = new Map<string, string>();
+  for (const node of nodes) {
+    if (!keyByHost.has(node.ip) || node.rpcEndpoint) keyByHost.set(node.ip, node.key);
+  }
+  const edges: TopologyEdge[] = [];
+  const knownBy = new Map<string, number>();
+  const knows = new Map<string, number>();
+  const neighbors = new Map<string, Set<string>>();
+  
+  const link = (a: string, b: string) => {
+    if (!neighbors.has(a)) neighbors.set(a, new Set());
+    neighbors.get(a)!.add(b);
+  };
+  
+  for (const node of nodes) {
+    for (const reporter of node.reportedBy) {
+      const source = isBootstrapSource(reporter) ? undefined : keyByHost.get(reporter);
+      if (!source || source === node.key) continue;
+      
+      edges.push({ source, target: node.key });
+      knownBy.set(node.key, (knownBy.get(node.key) || 0) + 1);
+      knows.set(source, (knows.get(source) || 0) + 1);
+      link(source, node.key);
+      link(node.key, source);
+    }
+  }
+  
+  const components = findComponents(nodes.map(n => n.key), neighbors);
+  const componentByKey = new Map<string, number>();
+  components.forEach(c => c.keys.forEach(key => componentByKey.set(key, c.id)));
+  
+  const topologyNodes: TopologyNode[] = nodes.map(node => {
+    const inDegree = knownBy.get(node.key) || 0;
+    return {
+      key: node.key,
+      ip: node.ip,
+      status: node.status,
+      version: node.version,
+      knownBy: inDegree,
+      knows: knows.get(node.key) || 0,
+      bootstrapReported: node.reportedBy.some(isBootstrapSource),
+      component: componentByKey.get(node.key) ?? null,
+      singlePeer: inDegree === 1,
+    };
+  });
+  
+  return {
+    nodes: topologyNodes,
+    edges,
+    components,
+    stats: {
+      nodeCount: topologyNodes.length,
+      edgeCount: edges.length,
+      reportingPeers: knows.size,
+      unlinkedNodes: topologyNodes.filter(n => n.component === null).length,
+      knownBy: calculateDegreeStats(topologyNodes.map(n => n.knownBy)),
+      knows: calculateDegreeStats(topologyNodes.map(n => n.knows)),
+      componentCount: components.length,
+      largestComponentSize: components[0]?.size || 0,
+      singlePeerCount: topologyNodes.filter(n => n.singlePeer).length,
+      partitioned: components.length > 1,
+    },
+  };
+}
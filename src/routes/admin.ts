@@ -0,0 +1,224 @@
+/**
+ * Xandeum Explorer - Admin Routes
+ * Token-protected maintenance endpoints (snapshots, background jobs)
+ */
+
+import { Hono } from "hono";
+import { stream } from "hono/streaming";
+import * as store from "../services/store";
+import { flushPersistedState, type PersistedSnapshot } from "../services/persistence";
+import {
+  exportSnapshot,
+  importSnapshot,
+  snapshotToNdjson,
+  SNAPSHOT_FORMATS,
+  type SnapshotFormat
+} from "../services/snapshot";
+import * as jobs from "../services/jobs";
+import logger from "../lib/logger";
+
+const admin = new Hono();
+
+// ============================================
+// Auth (SYNC_TOKEN; required for anything that changes state)
+// ============================================
+
+admin.use("*", async (c, next) => {
+  const syncToken = process.env.SYNC_TOKEN;
+  if (syncToken) {
+    const authHeader = c.req.header("Authorization");
+    if (!authHeader || authHeader !== `Bearer ${syncToken}`) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+  } else if (c.req.method !== "GET") {
+    return c.json({ 
+      error: "Admin token not configured", 
+      suggestion: "Set SYNC_TOKEN to enable snapshot imports and job control",
+    }, 403);
+  }
+  return next();
+});
+
+// ============================================
+// Snapshots
+// ============================================
+
+admin.get("/snapshot", (c) => {
+  const format = (c.req.query("format") || "json") as SnapshotFormat;
+  
+  if (!SNAPSHOT_FORMATS.includes(format)) {
+    return c.json({ 
+      error: "Invalid format", 
+      format,
+      available: SNAPSHOT_FORMATS,
+    }, 400);
+  }
+  
+  const snapshot = exportSnapshot();
+  const filename = `xandeum-snapshot-${snapshot.savedAt.replace(/[:.]/g, "-")}.${format}`;
+  c.header("Content-Disposition", `attachment; filename="${filename}"`);
+  
+  logger.info(`Snapshot exported (${format})`, { nodes: snapshot.store.nodes.length });
+  
+  if (format === "json") {
+    return c.json(snapshot);
+  }
+  
+  c.header("Content-Type", "application/x-ndjson");
+  return stream(c, async (s) => {
+    for (const line of snapshotToNdjson(snapshot)) {
+      await s.write(line);
+    }
+  });
+});
+
+admin.post("/snapshot", async (c) => {
+  const contentType = c.req.header("Content-Type") || "";
+  
+  let input: PersistedSnapshot | string;
+  try {
+    input = contentType.includes("ndjson")
+      ? await c.req.text()
+      : await c.req.json<PersistedSnapshot>();
+  } catch (err) {
+    logger.error("Snapshot import failed", { error: (err as Error).message });
+    return c.json({ error: "Snapshot import failed", message: (err as Error).message }, 400);
+  }
+  
+  // Holds the sync lock so a sync (or crawl) cannot write over the imported state
+  const pending = jobs.runWithLock("sync", "snapshot-import", async () => {
+    const imported = importSnapshot(input);
+    await flushPersistedState();
+    return imported;
+  });
+  if (!pending) {
+    return c.json({ 
+      error: "Sync already in progress", 
+      job: jobs.getJob("sync"),
+      suggestion: "Wait for the current sync to finish",
+    }, 409);
+  }
+  
+  let snapshot: PersistedSnapshot;
+  try {
+    snapshot = await pending;
+  } catch (err) {
+    logger.error("Snapshot import failed", { error: (err as Error).message });
+    return c.json({ error: "Snapshot import failed", message: (err as Error).message }, 400);
+  }
+  
+  logger.info("Snapshot imported", { nodes: store.getStoreSize(), savedAt: snapshot.savedAt });
+  
+  return c.json({
+    message: "Snapshot imported",
+    savedAt: snapshot.savedAt,
+    nodes: store.getStoreSize(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ============================================
+// Background Jobs
+// ============================================
+
+admin.get("/jobs", (c) => {
+  return c.json({
+    schedulerRunning: jobs.isSchedulerRunning(),
+    jobs: jobs.getJobs(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+admin.get("/jobs/runs", (c) => {
+  const name = c.req.query("job");
+  const limit = parseInt(c.req.query("limit") || "50", 10) || 50;
+  
+  if (name && !jobs.hasJob(name)) {
+    return c.json({ 
+      error: "Unknown job", 
+      job: name, 
+      available: jobs.getJobs().map(j => j.name),
+    }, 404);
+  }
+  
+  return c.json({
+    runs: jobs.getJobRuns(name, limit),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+admin.get("/jobs/:name", (c) => {
+  const name = c.req.param("name");
+  const job = jobs.getJob(name);
+  
+  if (!job) {
+    return c.json({ 
+      error: "Unknown job", 
+      job: name, 
+      available: jobs.getJobs().map(j => j.name),
+    }, 404);
+  }
+  
+  return c.json({
+    ...job,
+    runs: jobs.getJobRuns(name, 10),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+admin.post("/jobs/:name/trigger", async (c) => {
+  const name = c.req.param("name");
+  
+  if (!jobs.hasJob(name)) {
+    return c.json({ 
+      error: "Unknown job", 
+      job: name, 
+      available: jobs.getJobs().map(j => j.name),
+    }, 404);
+  }
+  
+  const pending = jobs.triggerJob(name);
+  if (!pending) {
+    return c.json({ 
+      error: "Job is already running", 
+      job: jobs.getJob(name),
+      suggestion: "Wait for the current run to finish",
+    }, 409);
+  }
+  
+  // ?wait=true holds the request until the run finishes
+  if (c.req.query("wait") === "true") {
+    const run = await pending;
+    return c.json({ run, timestamp: new Date().toISOString() });
+  }
+  
+  return c.json({ 
+    message: "Job started", 
+    run: jobs.getJob(name)?.running ?? null, 
+    timestamp: new Date().toISOString(),
+  }, 202);
+});
+
+admin.post("/jobs/:name/pause", (c) => {
+  const name = c.req.param("name");
+  const job = jobs.pauseJob(name);
+  
+  if (!job) {
+    return c.json({ error: "Unknown job", job: name, available: jobs.getJobs().map(j => j.name) }, 404);
+  }
+  
+  return c.json({ message: "Job paused", job, timestamp: new Date().toISOString() });
+});
+
+admin.post("/jobs/:name/resume", (c) => {
+  const name = c.req.param("name");
+  const job = jobs.resumeJob(name);
+  
+  if (!job) {
+    return c.json({ error: "Unknown job", job: name, available: jobs.getJobs().map(j => j.name) }, 404);
+  }
+  
+  return c.json({ message: "Job resumed", job, timestamp: new Date().toISOString() });
+});
+
+export default admin;
@@ -5,10 +5,10 @@
 
 import { Hono } from "hono";
 import * as store from "../services/store";
+import * as briefings from "../services/briefing";
 import { 
   aiParseSearchQuery, 
   aiDiagnoseNode, 
-  aiGenerateBriefing,
   aiAnswerQuery,
   aiExplainNode
 } from "../lib/ai";
@@ -16,13 +16,6 @@ import logger from "../lib/logger";
 
 const ai = new Hono();
 
-// Briefing cache (regenerate every 6 hours)
-let briefingCache: { data: import("../types").AIBriefing | null; timestamp: number } = {
-  data: null,
-  timestamp: 0,
-};
-const BRIEFING_CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours
-
 // ============================================
 // Magic Search - Natural Language Filtering
 // ============================================
@@ -77,6 +70,7 @@ ai.post("/search", async (c) => {
       },
       // Return first 20 nodes for quick preview
       nodes: results.slice(0, 20).map(n => ({
+        key: n.key,
         ip: n.ip,
         status: n.status,
         country: n.geo?.country || "Unknown",
@@ -146,25 +140,8 @@ ai.post("/diagnose", async (c) => {
 
 ai.get("/briefing", async (c) => {
   try {
-    const now = Date.now();
-    
-    // Check cache
-    if (briefingCache.data && (now - briefingCache.timestamp) < BRIEFING_CACHE_TTL) {
-      logger.ai("briefing", "Returning cached briefing");
-      return c.json({ ...briefingCache.data, cached: true });
-    }
-    
-    logger.ai("briefing", "Generating fresh briefing");
-    
-    const stats = store.calculateNetworkStats();
-    const briefing = await aiGenerateBriefing(stats);
-    
-    // Cache the result
-    briefingCache = {
-      data: briefing,
-      timestamp: now,
-    };
-    
+    // Usually pre-generated by the briefing job; generated here only on a cold or expired cache
+    const briefing = await briefings.getBriefing();
     return c.json(briefing);
   } catch (err) {
     logger.error("AI briefing failed", { error: (err as Error).message });
@@ -223,20 +200,21 @@ ai.post("/query", async (c) => {
 
 ai.get("/explain/:ip", async (c) => {
   try {
-    const ip = decodeURIComponent(c.req.param("ip"));
-    const node = store.getNode(ip);
+    const key = store.resolveNodeKey(decodeURIComponent(c.req.param("ip")));
+    const node = store.getNode(key);
     
     if (!node) {
-      return c.json({ error: "Node not found", ip }, 404);
+      return c.json({ error: "Node not found", key }, 404);
     }
     
-    logger.ai("explain", `Explaining ${ip}`);
+    logger.ai("explain", `Explaining ${key}`);
     
     const networkAvg = store.getNetworkAverages();
     const explanation = await aiExplainNode(node, networkAvg);
     
     return c.json({
-      ip,
+      key,
+      ip: node.ip,
       explanation,
       node: {
         status: node.status,
@@ -265,17 +243,10 @@ ai.post("/briefing/refresh", async (c) => {
     }
   }
   
-  briefingCache = { data: null, timestamp: 0 };
-  logger.ai("briefing", "Cache cleared");
+  briefings.clearBriefingCache();
   
   // Generate new briefing
-  const stats = store.calculateNetworkStats();
-  const briefing = await aiGenerateBriefing(stats);
-  
-  briefingCache = {
-    data: briefing,
-    timestamp: Date.now(),
-  };
+  const briefing = await briefings.generateBriefing();
   
   return c.json({
     message: "Briefing cache refreshed",
@@ -4,14 +4,69 @@
  */
 
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
 import * as store from "../services/store";
-import { syncOnce, getSyncConfig } from "../services/sync";
-import { formatBytes, formatUptime } from "../lib/format";
+import * as metrics from "../services/metrics";
+import * as availability from "../services/availability";
+import * as latency from "../services/latency";
+import * as decentralization from "../services/decentralization";
+import { getSyncConfig } from "../services/sync";
+import { getCrawlStatus } from "../services/crawler";
+import * as schedule from "../services/schedule";
+import * as progress from "../services/progress";
+import { isSchedulerRunning, triggerJob, getJob } from "../services/jobs";
+import { formatBytes, formatUptime, extractIp } from "../lib/format";
+import { buildTopology } from "../lib/topology";
+import { getSchemaCoverage, isSchemaSource } from "../lib/drift";
+import { getGeoCacheStats, getGeoProviderNames, getAsnProviderNames } from "../lib/geo";
+import { getBootstrapHealth, getBootstrapInfo, getCircuitBreakerStates } from "../lib/prpc";
 import logger from "../lib/logger";
-import type { XandeumNode, NodeSearchFilter } from "../types";
+import type { XandeumNode, NodeSearchFilter, NodeEventFilter, NodeEventType } from "../types";
 
 const explorer = new Hono();
 
+const NODE_EVENT_TYPES: NodeEventType[] = [
+  "node_joined",
+  "node_offline",
+  "node_recovered",
+  "version_changed",
+  "pubkey_changed",
+  "restarted",
+  "removed",
+];
+
+/**
+ * Build an event filter from query params (?type=a,b&since=&until=&limit=)
+ */
+function parseEventFilter(query: (key: string) => string | undefined): NodeEventFilter | { error: string } {
+  const filter: NodeEventFilter = {};
+  
+  const type = query("type");
+  if (type) {
+    const types = type.split(",").map(t => t.trim()) as NodeEventType[];
+    const invalid = types.filter(t => !NODE_EVENT_TYPES.includes(t));
+    if (invalid.length > 0) {
+      return { error: `Invalid event type: ${invalid.join(", ")}` };
+    }
+    filter.types = types;
+  }
+  
+  for (const key of ["since", "until"] as const) {
+    const value = query(key);
+    if (value) {
+      const ms = new Date(value).getTime();
+      if (isNaN(ms)) {
+        return { error: `Invalid ${key} timestamp` };
+      }
+      filter[key] = ms;
+    }
+  }
+  
+  filter.limit = Math.min(parseInt(query("limit") || "100", 10) || 100, 1000);
+  
+  return filter;
+}
+
 // ============================================
 // Health Check
 // ============================================
@@ -30,11 +85,22 @@ explorer.get("/health", (c) => {
       lastSync: syncStatus.lastSync?.toISOString() || null,
       syncCount: syncStatus.syncCount,
       interval: syncConfig.intervalMs,
-      isRunning: syncConfig.isRunning,
+      isRunning: isSchedulerRunning(),
     },
     store: {
       totalNodes: store.getStoreSize(),
     },
+    bootstrap: {
+      mode: getBootstrapInfo().mode,
+      nodes: getBootstrapHealth(),
+    },
+    crawl: getCrawlStatus(),
+    geo: {
+      providers: getGeoProviderNames(),
+      asnProviders: getAsnProviderNames(),
+      cache: getGeoCacheStats(),
+    },
+    circuitBreakers: getCircuitBreakerStates(),
     version: process.env.npm_package_version || "1.0.0",
   });
 });
@@ -63,6 +129,44 @@ explorer.get("/network/summary", (c) => {
   });
 });
 
+explorer.get("/network/history", (c) => {
+  const metric = c.req.query("metric") || "";
+  const resolution = c.req.query("resolution") || "1h";
+  const since = c.req.query("since");
+  
+  if (!metrics.isNetworkMetric(metric)) {
+    return c.json({
+      error: "Invalid metric",
+      metric,
+      available: metrics.NETWORK_METRICS,
+    }, 400);
+  }
+  
+  if (!metrics.isRollupResolution(resolution)) {
+    return c.json({
+      error: "Invalid resolution",
+      resolution,
+      available: metrics.ROLLUP_RESOLUTIONS,
+    }, 400);
+  }
+  
+  const sinceMs = since ? new Date(since).getTime() : undefined;
+  if (sinceMs !== undefined && isNaN(sinceMs)) {
+    return c.json({ error: "Invalid since timestamp", since }, 400);
+  }
+  
+  const points = metrics.getMetricHistory(metric, resolution, sinceMs);
+  
+  return c.json({
+    metric,
+    resolution,
+    retentionMs: metrics.getRollupConfig()[resolution].retentionMs,
+    points,
+    total: points.length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
 // ============================================
 // Nodes List (Like Orb's validators page)
 // ============================================
@@ -144,13 +248,24 @@ explorer.get("/nodes", (c) => {
 // ============================================
 
 explorer.get("/node/:ip", (c) => {
-  const ip = decodeURIComponent(c.req.param("ip"));
-  const node = store.getNode(ip);
+  const key = store.resolveNodeKey(decodeURIComponent(c.req.param("ip")));
+  const node = store.getNode(key);
   
   if (!node) {
+    // Pods sharing an IP are keyed by their full address
+    const candidates = store.findNodesByHost(key).map(n => n.key);
+    if (candidates.length > 0) {
+      return c.json({ 
+        error: "Several pods share this IP", 
+        key,
+        candidates,
+        suggestion: "Request one of the candidates (IP:port)"
+      }, 404);
+    }
+    
     return c.json({ 
       error: "Node not found", 
-      ip,
+      key,
       suggestion: "Check if the IP is correct or wait for next sync"
     }, 404);
   }
@@ -175,12 +290,208 @@ explorer.get("/node/:ip", (c) => {
   
   return c.json({
     node,
+    availability: availability.getNodeAvailability(key),
+    latencyStats: latency.getNodeLatency(key),
     networkComparison: comparison,
     networkAverages: networkAvg,
     fetchedAt: new Date().toISOString(),
   });
 });
 
+explorer.get("/node/:ip/history", (c) => {
+  const key = store.resolveNodeKey(decodeURIComponent(c.req.param("ip")));
+  const window = c.req.query("window") || "24h";
+  
+  if (!store.isHistoryWindow(window)) {
+    return c.json({ 
+      error: "Invalid window", 
+      window,
+      suggestion: "Use one of: 24h, 7d, 30d"
+    }, 400);
+  }
+  
+  if (!store.getNode(key)) {
+    return c.json({ 
+      error: "Node not found", 
+      key,
+      suggestion: "Check if the IP is correct or wait for next sync"
+    }, 404);
+  }
+  
+  const history = store.getNodeHistory(key, window);
+  
+  return c.json({
+    key,
+    window,
+    resolution: history.resolution,
+    points: history.points,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/node/:ip/availability", (c) => {
+  const key = store.resolveNodeKey(decodeURIComponent(c.req.param("ip")));
+  const result = availability.getNodeAvailability(key);
+  
+  if (!result) {
+    return c.json({ 
+      error: "No probe history for node", 
+      key,
+      suggestion: "Check if the IP is correct or wait for next sync"
+    }, 404);
+  }
+  
+  return c.json({
+    ...result,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/node/:ip/latency", (c) => {
+  const key = store.resolveNodeKey(decodeURIComponent(c.req.param("ip")));
+  const result = latency.getNodeLatency(key);
+  
+  if (!result) {
+    return c.json({ 
+      error: "No latency samples for node", 
+      key,
+      suggestion: "Latency is only sampled from successful probes; wait for the node to answer"
+    }, 404);
+  }
+  
+  return c.json({
+    ...result,
+    lastProbe: store.getNode(key)?.latency ?? null,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/node/:ip/events", (c) => {
+  const key = store.resolveNodeKey(decodeURIComponent(c.req.param("ip")));
+  const filter = parseEventFilter(key => c.req.query(key));
+  
+  if ("error" in filter) {
+    return c.json({ ...filter, availableTypes: NODE_EVENT_TYPES }, 400);
+  }
+  
+  const events = store.getEvents({ ...filter, key });
+  
+  return c.json({
+    key,
+    filter,
+    events,
+    total: events.length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ============================================
+// Operators (pubkey identity)
+// ============================================
+
+explorer.get("/operators", (c) => {
+  const limit = parseInt(c.req.query("limit") || "100", 10);
+  const offset = parseInt(c.req.query("offset") || "0", 10);
+  
+  const operators = store.getAllOperators()
+    .sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime());
+  
+  return c.json({
+    pagination: {
+      total: operators.length,
+      limit,
+      offset,
+      hasMore: offset + limit < operators.length,
+    },
+    operators: operators.slice(offset, offset + limit).map(o => ({
+      pubkey: o.pubkey,
+      status: o.status,
+      activeKeys: o.activeKeys,
+      addressCount: o.addresses.length,
+      conflictCount: o.conflictCount,
+      firstSeen: o.firstSeen,
+      lastSeen: o.lastSeen,
+    })),
+    totalConflicts: store.getIdentityConflicts().length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/operators/conflicts", (c) => {
+  const conflicts = store.getIdentityConflicts();
+  
+  return c.json({
+    conflicts,
+    total: conflicts.length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/operator/:pubkey", (c) => {
+  const pubkey = decodeURIComponent(c.req.param("pubkey"));
+  const window = c.req.query("window") || "24h";
+  const operator = store.getOperator(pubkey);
+  
+  if (!operator) {
+    return c.json({ 
+      error: "Operator not found", 
+      pubkey,
+      suggestion: "Check if the pubkey is correct or wait for next sync"
+    }, 404);
+  }
+  
+  if (!store.isHistoryWindow(window)) {
+    return c.json({ 
+      error: "Invalid window", 
+      window,
+      suggestion: "Use one of: 24h, 7d, 30d"
+    }, 400);
+  }
+  
+  const history = store.getOperatorHistory(pubkey, window);
+  
+  return c.json({
+    operator,
+    nodes: operator.activeKeys.map(key => store.getNode(key)),
+    conflicts: store.getIdentityConflicts(pubkey),
+    events: store.getEvents({ pubkey, limit: 100 }),
+    history: {
+      window,
+      resolution: history.resolution,
+      points: history.points,
+    },
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ============================================
+// Lifecycle Events (On-call feed)
+// ============================================
+
+explorer.get("/events", (c) => {
+  const filter = parseEventFilter(key => c.req.query(key));
+  
+  if ("error" in filter) {
+    return c.json({ ...filter, availableTypes: NODE_EVENT_TYPES }, 400);
+  }
+  
+  const events = store.getEvents(filter);
+  
+  // Type breakdown of returned events
+  const byType: Record<string, number> = {};
+  events.forEach(e => {
+    byType[e.type] = (byType[e.type] || 0) + 1;
+  });
+  
+  return c.json({
+    filter,
+    events,
+    total: events.length,
+    byType,
+    timestamp: new Date().toISOString(),
+  });
+});
+
 // ============================================
 // Search (Natural language + filters)
 // ============================================
@@ -207,6 +518,24 @@ explorer.get("/search", (c) => {
   const hasRpc = c.req.query("hasRpc");
   if (hasRpc) filter.hasPublicRpc = hasRpc === "true";
   
+  const provider = c.req.query("provider");
+  if (provider) filter.provider = provider;
+  
+  const asn = c.req.query("asn");
+  if (asn) {
+    if (!/^(AS)?\d+$/i.test(asn)) {
+      return c.json({ 
+        error: "Invalid asn", 
+        asn, 
+        suggestion: "Use an AS number, e.g. 24940 or AS24940"
+      }, 400);
+    }
+    filter.asn = parseInt(asn.replace(/^AS/i, ""), 10);
+  }
+  
+  const hosting = c.req.query("hosting");
+  if (hosting) filter.hosting = hosting === "true";
+  
   const results = store.searchNodes(filter);
   
   // Calculate summary of results
@@ -286,6 +615,42 @@ explorer.get("/distribution/countries", (c) => {
   });
 });
 
+explorer.get("/distribution/providers", (c) => {
+  const limit = Math.min(parseInt(c.req.query("limit") || "50", 10) || 50, 500);
+  const { providers, summary } = store.getProviderDistribution();
+  
+  return c.json({
+    providers: providers.slice(0, limit),
+    total: providers.length,
+    summary,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/distribution/latency", (c) => {
+  const by = c.req.query("by") || "country";
+  
+  if (by !== "country" && by !== "version") {
+    return c.json({ 
+      error: "Invalid grouping", 
+      by,
+      suggestion: "Use one of: country, version"
+    }, 400);
+  }
+  
+  const groups = latency.getLatencyByGroup(
+    store.getAllNodes(),
+    node => (by === "country" ? node.geo?.country : node.version) || "Unknown"
+  );
+  
+  return c.json({
+    by,
+    groups,
+    total: groups.length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
 explorer.get("/distribution/health", (c) => {
   const stats = store.calculateNetworkStats();
   
@@ -296,6 +661,132 @@ explorer.get("/distribution/health", (c) => {
   });
 });
 
+// ============================================
+// Decentralization (Concentration metrics)
+// ============================================
+
+explorer.get("/decentralization", (c) => {
+  const weight = c.req.query("weight") || "nodes";
+  const requested = (c.req.query("dimension") || decentralization.DECENTRALIZATION_DIMENSIONS.join(","))
+    .split(",")
+    .map(d => d.trim());
+  const config = decentralization.getDecentralizationConfig();
+  const top = Math.min(Math.max(parseInt(c.req.query("top") || String(config.topN), 10) || config.topN, 1), 100);
+  const includeOffline = c.req.query("includeOffline") === "true";
+  
+  if (!decentralization.isDecentralizationWeight(weight)) {
+    return c.json({
+      error: "Invalid weight",
+      weight,
+      available: decentralization.DECENTRALIZATION_WEIGHTS,
+    }, 400);
+  }
+  
+  const invalid = requested.filter(d => !decentralization.isDecentralizationDimension(d));
+  if (invalid.length > 0) {
+    return c.json({
+      error: "Invalid dimension",
+      dimension: invalid.join(","),
+      available: decentralization.DECENTRALIZATION_DIMENSIONS,
+    }, 400);
+  }
+  
+  const dimensions = requested.filter(decentralization.isDecentralizationDimension);
+  const nodes = includeOffline
+    ? store.getAllNodes()
+    : decentralization.getActiveNodes(store.getAllNodes());
+  
+  return c.json({
+    weight,
+    top,
+    nakamotoThreshold: config.nakamotoThreshold,
+    includeOffline,
+    nodes: nodes.length,
+    dimensions: Object.fromEntries(dimensions.map(d => [
+      d,
+      decentralization.calculateConcentration(nodes, d, weight, top),
+    ])),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/decentralization/history", (c) => {
+  const dimension = c.req.query("dimension") || "";
+  const metric = c.req.query("metric") || "nakamoto";
+  const weight = c.req.query("weight") || "nodes";
+  const resolution = c.req.query("resolution") || "1h";
+  const since = c.req.query("since");
+  
+  if (!decentralization.isDecentralizationDimension(dimension)) {
+    return c.json({
+      error: "Invalid dimension",
+      dimension,
+      available: decentralization.DECENTRALIZATION_DIMENSIONS,
+    }, 400);
+  }
+  
+  if (!decentralization.isConcentrationMetric(metric)) {
+    return c.json({
+      error: "Invalid metric",
+      metric,
+      available: decentralization.CONCENTRATION_METRICS,
+    }, 400);
+  }
+  
+  if (!decentralization.isDecentralizationWeight(weight)) {
+    return c.json({
+      error: "Invalid weight",
+      weight,
+      available: decentralization.DECENTRALIZATION_WEIGHTS,
+    }, 400);
+  }
+  
+  if (!metrics.isRollupResolution(resolution)) {
+    return c.json({
+      error: "Invalid resolution",
+      resolution,
+      available: metrics.ROLLUP_RESOLUTIONS,
+    }, 400);
+  }
+  
+  const sinceMs = since ? new Date(since).getTime() : undefined;
+  if (sinceMs !== undefined && isNaN(sinceMs)) {
+    return c.json({ error: "Invalid since timestamp", since }, 400);
+  }
+  
+  const points = decentralization.getDecentralizationHistory(dimension, weight, metric, resolution, sinceMs);
+  
+  return c.json({
+    dimension,
+    metric,
+    weight,
+    resolution,
+    retentionMs: metrics.getRollupConfig()[resolution].retentionMs,
+    points,
+    total: points.length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ============================================
+// Gossip Topology (Partition detection)
+// ============================================
+
+explorer.get("/topology", (c) => {
+  const includeEdges = c.req.query("edges") !== "false";
+  const graph = buildTopology(store.getAllNodes());
+  
+  return c.json({
+    stats: graph.stats,
+    components: graph.components,
+    singlePeerNodes: graph.nodes.filter(n => n.singlePeer).map(n => n.key),
+    nodes: graph.nodes,
+    edges: includeEdges ? graph.edges : undefined,
+    crawlEnabled: getCrawlStatus().enabled,
+    timestamp: new Date().toISOString(),
+  });
+});
+
 // ============================================
 // Manual Sync Trigger (Admin)
 // ============================================
@@ -310,12 +801,142 @@ explorer.post("/sync", async (c) => {
     }
   }
   
+  // Runs as the sync job so it shares the lock with scheduled syncs and crawls
+  const pending = triggerJob("sync");
+  if (!pending) {
+    return c.json({ 
+      error: "Sync already in progress", 
+      job: getJob("sync"),
+      suggestion: "Wait for the current run to finish",
+    }, 409);
+  }
+  
   logger.info("Manual sync triggered");
+  const run = await pending;
   
-  const result = await syncOnce();
+  return c.json({
+    success: run.status === "success",
+    error: run.error ?? undefined,
+    ...run.result,
+    run,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Keep-alive for idle SSE connections (proxies drop silent streams)
+const SSE_HEARTBEAT_MS = 15000;
+
+function buildSyncStatus(runsLimit: number) {
+  const syncStatus = store.getSyncStatus();
+  
+  return {
+    status: syncStatus.status,
+    progress: progress.getSyncProgress(),
+    lastSync: syncStatus.lastSync?.toISOString() || null,
+    syncCount: syncStatus.syncCount,
+    runs: progress.getSyncRuns(runsLimit),
+  };
+}
+
+explorer.get("/sync/status", (c) => {
+  const limit = parseInt(c.req.query("runs") || "10", 10);
   
   return c.json({
-    ...result,
+    ...buildSyncStatus(limit),
+    phases: progress.SYNC_PHASES,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/sync/status/stream", (c) => {
+  return streamSSE(c, async (sse) => {
+    let eventId = 0;
+    const send = (event: string, data: unknown) => 
+      sse.writeSSE({ event, data: JSON.stringify(data), id: String(eventId++) });
+    
+    await send("status", buildSyncStatus(1));
+    
+    const unsubscribe = progress.onSyncProgress((current, run) => {
+      void (run ? send("complete", run) : send("progress", current));
+    });
+    sse.onAbort(unsubscribe);
+    
+    while (!sse.aborted && !sse.closed) {
+      await sse.sleep(SSE_HEARTBEAT_MS);
+      await send("ping", { timestamp: new Date().toISOString() });
+    }
+    
+    unsubscribe();
+  });
+});
+
+explorer.get("/sync/schedule", (c) => {
+  const limit = parseInt(c.req.query("limit") || "100", 10);
+  const failingOnly = c.req.query("failing") === "true";
+  const now = Date.now();
+  
+  const queue = schedule.getProbeSchedule();
+  const filtered = failingOnly ? queue.filter(e => e.consecutiveFailures > 0) : queue;
+  
+  return c.json({
+    config: schedule.getScheduleConfig(),
+    summary: {
+      tracked: queue.length,
+      dueNow: queue.filter(e => e.nextProbeAt <= now).length,
+      backedOff: queue.filter(e => e.consecutiveFailures > 0).length,
+    },
+    queue: filtered.slice(0, limit).map(e => ({
+      key: e.key,
+      ip: extractIp(e.key),
+      nextProbeAt: new Date(e.nextProbeAt).toISOString(),
+      dueInMs: Math.max(0, e.nextProbeAt - now),
+      intervalMs: e.intervalMs,
+      consecutiveFailures: e.consecutiveFailures,
+      lastProbeAt: e.lastProbeAt ? new Date(e.lastProbeAt).toISOString() : null,
+      lastOutcome: e.lastOutcome,
+    })),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ============================================
+// Schema Coverage (pRPC response drift)
+// ============================================
+
+explorer.get("/schema/coverage", (c) => {
+  const source = c.req.query("source");
+  
+  if (source !== undefined && !isSchemaSource(source)) {
+    return c.json({ 
+      error: "Invalid source", 
+      source,
+      suggestion: "Use one of: get-stats, get-pods"
+    }, 400);
+  }
+  
+  const reports = source ? [getSchemaCoverage(source)] : [getSchemaCoverage("get-stats"), getSchemaCoverage("get-pods")];
+  
+  return c.json({
+    reports,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ============================================
+// Probe Outcomes (Failure taxonomy)
+// ============================================
+
+explorer.get("/probes/summary", (c) => {
+  const summary = store.getProbeOutcomeSummary();
+  const failed = summary.probedNodes - summary.latest.ok;
+  
+  return c.json({
+    ...summary,
+    failedNodes: failed,
+    failurePercent: summary.probedNodes > 0 
+      ? Math.round((failed / summary.probedNodes) * 1000) / 10 
+      : 0,
+    outcomeTypes: store.PROBE_OUTCOME_TYPES,
     timestamp: new Date().toISOString(),
   });
 });
@@ -335,6 +956,7 @@ explorer.get("/leaderboard/health", (c) => {
     title: "Healthiest Nodes",
     nodes: nodes.map((n, i) => ({
       rank: i + 1,
+      key: n.key,
       ip: n.ip,
       healthScore: n.derived?.healthScore || 0,
       healthGrade: n.derived?.healthGrade || "unknown",
@@ -356,6 +978,7 @@ explorer.get("/leaderboard/uptime", (c) => {
     title: "Longest Running Nodes",
     nodes: nodes.map((n, i) => ({
       rank: i + 1,
+      key: n.key,
       ip: n.ip,
       uptimeSeconds: n.stats?.uptime || 0,
       uptimeHuman: n.derived?.uptimeHuman || "N/A",
@@ -366,4 +989,77 @@ explorer.get("/leaderboard/uptime", (c) => {
   });
 });
 
+explorer.get("/leaderboard/availability", (c) => {
+  const limit = parseInt(c.req.query("limit") || "10", 10);
+  const window = c.req.query("window") || "7d";
+  
+  if (!store.isHistoryWindow(window)) {
+    return c.json({ 
+      error: "Invalid window", 
+      window,
+      suggestion: "Use one of: 24h, 7d, 30d"
+    }, 400);
+  }
+  
+  const ranked = availability.getAllAvailability()
+    .filter(a => a.windows[window].availabilityPercent !== null)
+    .sort((a, b) => 
+      (b.windows[window].availabilityPercent || 0) - (a.windows[window].availabilityPercent || 0) ||
+      b.windows[window].observedSeconds - a.windows[window].observedSeconds
+    )
+    .slice(0, limit);
+  
+  return c.json({
+    title: "Most Available Nodes",
+    window,
+    nodes: ranked.map((a, i) => {
+      const node = store.getNode(a.key);
+      const stats = a.windows[window];
+      return {
+        rank: i + 1,
+        key: a.key,
+        ip: a.ip,
+        availabilityPercent: stats.availabilityPercent,
+        observedSeconds: stats.observedSeconds,
+        longestOutageSeconds: stats.longestOutageSeconds,
+        longestOutageHuman: stats.longestOutageHuman,
+        currentStreak: a.currentStreak,
+        country: node?.geo?.country || "Unknown",
+        healthScore: node?.derived?.healthScore || 0,
+      };
+    }),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+explorer.get("/leaderboard/latency", (c) => {
+  const limit = parseInt(c.req.query("limit") || "10", 10);
+  const minSamples = parseInt(c.req.query("minSamples") || "5", 10);
+  
+  const ranked = latency.getAllNodeLatency()
+    .filter(l => l.samples >= minSamples && l.p50Ms !== null)
+    .sort((a, b) => (a.p50Ms || 0) - (b.p50Ms || 0) || (a.p95Ms || 0) - (b.p95Ms || 0))
+    .slice(0, limit);
+  
+  return c.json({
+    title: "Most Responsive Nodes",
+    minSamples,
+    nodes: ranked.map((l, i) => {
+      const node = store.getNode(l.key);
+      return {
+        rank: i + 1,
+        key: l.key,
+        ip: l.ip,
+        p50Ms: l.p50Ms,
+        p95Ms: l.p95Ms,
+        p99Ms: l.p99Ms,
+        samples: l.samples,
+        country: node?.geo?.country || "Unknown",
+        version: node?.version || "Unknown",
+      };
+    }),
+    timestamp: new Date().toISOString(),
+  });
+});
+
 export default explorer;
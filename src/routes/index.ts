@@ -5,3 +5,4 @@
 
 export { default as explorerRoutes } from "./explorer";
 export { default as aiRoutes } from "./ai";
+export { default as adminRoutes } from "./admin";
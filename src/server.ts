@@ -10,6 +10,7 @@ import { cors } from "hono/cors";
 import axios from "axios";
 import { z } from "zod";
 import OpenAI from "openai";
+import { extractIp, extractPort, formatHostPort, normalizeNodeKey } from "./lib/format";
 
 // ============================================
 // Configuration
@@ -52,6 +53,7 @@ interface NodeStats {
 }
 
 interface Node {
+  key: string; // Canonical gossip address, as the store keys nodes
   ip: string;
   address: string;
   version: string | null;
@@ -74,6 +76,7 @@ const PodSchema = z.object({
   version: z.string().optional(),
   pubkey: z.string().nullable().optional(),
   last_seen_timestamp: z.number().optional(),
+  rpc_port: z.number().optional(),
 });
 
 const StatsSchema = z.object({
@@ -93,43 +96,21 @@ const StatsSchema = z.object({
 // In-Memory Store
 // ============================================
 
+// Keyed by normalizeNodeKey(address), so pods sharing an IP are counted like the store counts them
 const nodeCache = new Map<string, Node>();
+const geoByIp = new Map<string, GeoLocation>();
 let lastSyncTime: Date | null = null;
 let isSyncing = false;
 
-// Consolidate nodes by pubkey (fallback to IP) to avoid double-counting
-function consolidatedNodes(): Node[] {
-  const grouped = new Map<string, Node & { ips?: string[] }>();
-  for (const node of nodeCache.values()) {
-    const key = node.pubkey || node.ip;
-    const existing = grouped.get(key);
-    const ramPercent = node.derived?.ram_percent ?? 0;
-    const derived = node.derived ? {
+// One entry per pod; pubkey grouping lives in the store's operator model (/operators)
+function listNodes(): Node[] {
+  return Array.from(nodeCache.values()).map(node => ({
+    ...node,
+    derived: node.derived ? {
       ...node.derived,
       ram_usage_percent: node.derived.ram_usage_percent ?? node.derived.ram_percent,
-    } : null;
-
-    if (!existing) {
-      grouped.set(key, { ...node, derived, ips: [node.ip] });
-      continue;
-    }
-
-    // Pick the better node: Online > Unknown > Offline; then latest lastSeenTimestamp
-    const statusRank = (s: string) => (s === "Online" ? 2 : s === "Unknown" ? 1 : 0);
-    const existingRank = statusRank(existing.status);
-    const currentRank = statusRank(node.status);
-    const existingTs = existing.lastSeenTimestamp || 0;
-    const currentTs = node.lastSeenTimestamp || 0;
-
-    const preferCurrent = currentRank > existingRank || (currentRank === existingRank && currentTs > existingTs);
-    if (preferCurrent) {
-      grouped.set(key, { ...node, derived: { ...derived, ram_usage_percent: derived?.ram_usage_percent ?? ramPercent }, ips: [...(existing.ips || []), node.ip] });
-    } else {
-      // keep existing but track IP list
-      grouped.set(key, { ...existing, ips: [...(existing.ips || []), node.ip] });
-    }
-  }
-  return Array.from(grouped.values());
+    } : null,
+  }));
 }
 
 // ============================================
@@ -160,8 +141,14 @@ function formatBytes(bytes: number): string {
   return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
 }
 
-function extractIp(address: string): string {
-  return address.split(":")[0];
+// A node key, any spelling of one, or a bare IP running exactly one pod
+function findNode(value: string): Node | undefined {
+  const key = normalizeNodeKey(value);
+  const exact = nodeCache.get(key);
+  if (exact || extractPort(value) !== null) return exact;
+  
+  const onHost = Array.from(nodeCache.values()).filter(n => n.ip === key);
+  return onHost.length === 1 ? onHost[0] : undefined;
 }
 
 function calculateHealth(stats: NodeStats | null, isOnline: boolean): number {
@@ -207,9 +194,9 @@ async function fetchPods(): Promise<z.infer<typeof PodSchema>[]> {
   return result.data.pods;
 }
 
-async function fetchNodeStats(ip: string): Promise<NodeStats | null> {
+async function fetchNodeStats(ip: string, port: number): Promise<NodeStats | null> {
   try {
-    const response = await axios.post(`http://${ip}:6000/rpc`, {
+    const response = await axios.post(`http://${formatHostPort(ip, port)}/rpc`, {
       jsonrpc: "2.0", id: 1, method: "get-stats", params: []
     }, { timeout: 3000 });
     
@@ -265,38 +252,38 @@ async function syncNodes() {
     const pods = await fetchPods();
     log("INFO", `Got ${pods.length} pods`);
     
-    // 2. Deduplicate by IP
+    // 2. Deduplicate by gossip address
     const uniquePods = new Map<string, typeof pods[0]>();
     for (const pod of pods) {
-      const ip = extractIp(pod.address);
-      if (!uniquePods.has(ip)) uniquePods.set(ip, pod);
+      const key = normalizeNodeKey(pod.address);
+      if (!uniquePods.has(key)) uniquePods.set(key, pod);
     }
     
     // 3. Fetch geo for new IPs
-    const newIps = [...uniquePods.keys()].filter(ip => !nodeCache.get(ip)?.geo);
+    const newIps = [...new Set([...uniquePods.values()].map(pod => extractIp(pod.address)))]
+      .filter(ip => !geoByIp.has(ip));
     if (newIps.length > 0) {
       const geoMap = await fetchGeo(newIps);
-      for (const [ip, geo] of geoMap) {
-        const existing = nodeCache.get(ip);
-        if (existing) existing.geo = geo;
-      }
+      geoMap.forEach((geo, ip) => geoByIp.set(ip, geo));
     }
     
     // 4. Probe all nodes for stats (parallel with limit)
-    const ips = [...uniquePods.keys()];
+    const keys = [...uniquePods.keys()];
     const BATCH = 30;
     let online = 0, offline = 0;
     
-    for (let i = 0; i < ips.length; i += BATCH) {
-      const batch = ips.slice(i, i + BATCH);
-      const results = await Promise.all(batch.map(async ip => {
-        const stats = await fetchNodeStats(ip);
-        return { ip, stats };
+    for (let i = 0; i < keys.length; i += BATCH) {
+      const batch = keys.slice(i, i + BATCH);
+      const results = await Promise.all(batch.map(async key => {
+        const pod = uniquePods.get(key)!;
+        const stats = await fetchNodeStats(extractIp(pod.address), pod.rpc_port ?? 6000);
+        return { key, stats };
       }));
       
-      for (const { ip, stats } of results) {
-        const pod = uniquePods.get(ip)!;
-        const existing = nodeCache.get(ip);
+      for (const { key, stats } of results) {
+        const pod = uniquePods.get(key)!;
+        const ip = extractIp(pod.address);
+        const existing = nodeCache.get(key);
         const isOnline = stats !== null;
         
         const ramPercent = stats && stats.ram_total > 0 
@@ -304,6 +291,7 @@ async function syncNodes() {
           : 0;
         
         const node: Node = {
+          key,
           ip,
           address: pod.address,
           version: pod.version || null,
@@ -312,7 +300,7 @@ async function syncNodes() {
           lastSeen: isOnline ? new Date() : existing?.lastSeen || null,
           lastSeenTimestamp: pod.last_seen_timestamp || null,
           stats,
-          geo: existing?.geo || null,
+          geo: geoByIp.get(ip) || existing?.geo || null,
           derived: isOnline ? {
             health_score: calculateHealth(stats, true),
             ram_percent: Math.round(ramPercent * 100) / 100,
@@ -321,7 +309,7 @@ async function syncNodes() {
           } : null,
         };
         
-        nodeCache.set(ip, node);
+        nodeCache.set(key, node);
         isOnline ? online++ : offline++;
       }
     }
@@ -367,7 +355,7 @@ app.get("/health", (c) => c.json({
 // ============================================
 
 app.get("/pnodes", (c) => {
-  const nodes = consolidatedNodes();
+  const nodes = listNodes();
   const onlineNodes = nodes.filter(n => n.status === "Online");
   
   // Aggregates
@@ -430,8 +418,7 @@ app.get("/pnodes", (c) => {
 });
 
 app.get("/pnodes/:ip", (c) => {
-  const ip = decodeURIComponent(c.req.param("ip"));
-  const node = nodeCache.get(ip);
+  const node = findNode(decodeURIComponent(c.req.param("ip")));
   
   if (!node) return c.json({ error: "Node not found" }, 404);
   
@@ -439,7 +426,7 @@ app.get("/pnodes/:ip", (c) => {
 });
 
 app.get("/stats", (c) => {
-  const nodes = consolidatedNodes();
+  const nodes = listNodes();
   const onlineNodes = nodes.filter(n => n.status === "Online");
   
   // Distributions
@@ -520,9 +507,10 @@ app.get("/stats", (c) => {
 
 // Map markers
 app.get("/map", (c) => {
-  const markers = consolidatedNodes()
+  const markers = listNodes()
     .filter(n => n.geo?.lat && n.geo?.lon)
     .map(n => ({
+      key: n.key,
       ip: n.ip,
       lat: n.geo!.lat,
       lon: n.geo!.lon,
@@ -559,7 +547,7 @@ app.post("/ai/search", async (c) => {
     const filter = match ? JSON.parse(match[0]) : {};
     
     // Apply filter
-    let results = consolidatedNodes();
+    let results = listNodes();
     if (filter.country) results = results.filter(n => n.geo?.country?.toLowerCase().includes(filter.country.toLowerCase()));
     if (filter.status) results = results.filter(n => n.status === filter.status);
     if (filter.minHealthScore) results = results.filter(n => (n.derived?.health_score || 0) >= filter.minHealthScore);
@@ -569,6 +557,7 @@ app.post("/ai/search", async (c) => {
       filter,
       total: results.length,
       nodes: results.slice(0, 20).map(n => ({
+        key: n.key,
         ip: n.ip,
         country: n.geo?.country || "Unknown",
         status: n.status,
@@ -582,7 +571,7 @@ app.post("/ai/search", async (c) => {
 
 app.post("/ai/diagnose", async (c) => {
   const { ip } = await c.req.json();
-  const node = nodeCache.get(ip);
+  const node = findNode(String(ip ?? ""));
   if (!node) return c.json({ error: "Node not found" }, 404);
   
   const onlineNodes = Array.from(nodeCache.values()).filter(n => n.status === "Online");
@@ -611,7 +600,7 @@ app.post("/ai/diagnose", async (c) => {
 });
 
 app.get("/ai/briefing", async (c) => {
-  const nodes = consolidatedNodes();
+  const nodes = listNodes();
   const online = nodes.filter(n => n.status === "Online").length;
   const topCountry = Object.entries(
     nodes.reduce((acc, n) => { 
@@ -649,7 +638,7 @@ app.post("/ai/query", async (c) => {
   const { question } = await c.req.json();
   if (!question) return c.json({ error: "Question required" }, 400);
   
-  const nodes = consolidatedNodes();
+  const nodes = listNodes();
   const online = nodes.filter(n => n.status === "Online");
   const countries = nodes.reduce((acc, n) => {
     if (n.geo?.country) acc[n.geo.country] = (acc[n.geo.country] || 0) + 1;
@@ -0,0 +1,216 @@
+/**
+ * Xandeum Explorer - Availability Tracker
+ * Keeps probe outcomes as up/down segments and computes rolling SLA numbers
+ */
+
+import { formatUptime, extractIp } from "../lib/format";
+import { HISTORY_WINDOWS_MS } from "./store";
+import type {
+  HistoryWindow,
+  AvailabilityStats,
+  AvailabilityStreak,
+  NodeAvailability
+} from "../types";
+
+// Configuration
+const AVAILABILITY_RETENTION_MS = HISTORY_WINDOWS_MS["30d"];
+// Probes further apart than this are not bridged (e.g. explorer itself was down)
+const MAX_PROBE_GAP_MS = parseInt(process.env.AVAILABILITY_MAX_GAP_MS || "300000", 10);
+
+/**
+ * A run of consecutive probes with the same outcome
+ */
+export interface ProbeSegment {
+  start: number; // epoch ms
+  end: number;   // epoch ms of the last probe in the run
+  up: boolean;
+}
+
+let segmentsByIp = new Map<string, ProbeSegment[]>();
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Record one probe outcome for a node
+ * maxGapMs can be raised for nodes the scheduler deliberately probes less often
+ */
+export function recordProbeOutcome(
+  ip: string, 
+  up: boolean, 
+  now: number = Date.now(), 
+  maxGapMs: number = MAX_PROBE_GAP_MS
+): void {
+  let segments = segmentsByIp.get(ip);
+  if (!segments) {
+    segments = [];
+    segmentsByIp.set(ip, segments);
+  }
+  
+  const last = segments[segments.length - 1];
+  const bridged = last !== undefined && now - last.end <= maxGapMs;
+  
+  if (bridged && last.up === up) {
+    last.end = now;
+  } else {
+    // A state change takes effect from the previous probe when the two are close enough
+    segments.push({ start: bridged ? last.end : now, end: now, up });
+  }
+  
+  // Drop segments that ended before the retention window
+  const cutoff = now - AVAILABILITY_RETENTION_MS;
+  while (segments.length > 0 && segments[0].end < cutoff) {
+    segments.shift();
+  }
+}
+
+/**
+ * Record the outcome of a stats sweep (call once per sync)
+ * scheduledIntervalFor gives the interval each node was probed at, which is added to the allowed gap
+ */
+export function recordProbeOutcomes(
+  results: Map<string, unknown | null>, 
+  now: number = Date.now(),
+  scheduledIntervalFor?: (ip: string) => number
+): void {
+  results.forEach((stats, ip) => {
+    const maxGapMs = MAX_PROBE_GAP_MS + (scheduledIntervalFor?.(ip) ?? 0);
+    recordProbeOutcome(ip, stats !== null && stats !== undefined, now, maxGapMs);
+  });
+}
+
+/**
+ * Forget nodes that are no longer tracked (e.g. after stale removal)
+ */
+export function pruneAvailability(isTracked: (ip: string) => boolean): void {
+  for (const ip of segmentsByIp.keys()) {
+    if (!isTracked(ip)) segmentsByIp.delete(ip);
+  }
+}
+
+/**
+ * Move segments to the new keys of re-keyed nodes (old key -> new key)
+ */
+export function rekeyAvailability(renamed: Map<string, string>): void {
+  renamed.forEach((to, from) => {
+    const segments = segmentsByIp.get(from);
+    if (!segments || segmentsByIp.has(to)) return;
+    segmentsByIp.delete(from);
+    segmentsByIp.set(to, segments);
+  });
+}
+
+// ============================================
+// Queries
+// ============================================
+
+function calculateWindow(segments: ProbeSegment[], window: HistoryWindow, now: number): AvailabilityStats {
+  const from = now - HISTORY_WINDOWS_MS[window];
+  let observedMs = 0;
+  let upMs = 0;
+  let longestOutageMs = 0;
+  let currentOutageMs = 0;
+  
+  for (const segment of segments) {
+    if (segment.end < from) continue;
+    const overlap = Math.max(0, Math.min(segment.end, now) - Math.max(segment.start, from));
+    
+    observedMs += overlap;
+    if (segment.up) {
+      upMs += overlap;
+      currentOutageMs = 0;
+    } else {
+      // Adjacent down segments separated by a gap still count as one outage
+      currentOutageMs += overlap;
+      longestOutageMs = Math.max(longestOutageMs, currentOutageMs);
+    }
+  }
+  
+  // A single probe has no duration; fall back to the outcome itself
+  const hasProbes = segments.some(s => s.end >= from);
+  const availabilityPercent = observedMs > 0
+    ? Math.round((upMs / observedMs) * 10000) / 100
+    : hasProbes
+      ? (segments[segments.length - 1].up ? 100 : 0)
+      : null;
+  
+  return {
+    window,
+    availabilityPercent,
+    observedSeconds: Math.round(observedMs / 1000),
+    upSeconds: Math.round(upMs / 1000),
+    longestOutageSeconds: Math.round(longestOutageMs / 1000),
+    longestOutageHuman: longestOutageMs > 0 ? formatUptime(longestOutageMs / 1000) : "None",
+  };
+}
+
+function calculateStreak(segments: ProbeSegment[], now: number): AvailabilityStreak | null {
+  const last = segments[segments.length - 1];
+  if (!last) return null;
+  
+  let since = last.start;
+  for (let i = segments.length - 2; i >= 0 && segments[i].up === last.up; i--) {
+    since = segments[i].start;
+  }
+  
+  const durationSeconds = Math.round((now - since) / 1000);
+  
+  return {
+    status: last.up ? "up" : "down",
+    since: new Date(since),
+    durationSeconds,
+    durationHuman: formatUptime(durationSeconds),
+  };
+}
+
+/**
+ * Get availability for a node across all windows
+ */
+export function getNodeAvailability(key: string, now: number = Date.now()): NodeAvailability | null {
+  const segments = segmentsByIp.get(key);
+  if (!segments || segments.length === 0) {
+    return null;
+  }
+  
+  return {
+    key,
+    ip: extractIp(key),
+    windows: {
+      "24h": calculateWindow(segments, "24h", now),
+      "7d": calculateWindow(segments, "7d", now),
+      "30d": calculateWindow(segments, "30d", now),
+    },
+    currentStreak: calculateStreak(segments, now),
+  };
+}
+
+/**
+ * Get availability for every tracked node
+ */
+export function getAllAvailability(now: number = Date.now()): NodeAvailability[] {
+  const results: NodeAvailability[] = [];
+  segmentsByIp.forEach((_, ip) => {
+    const availability = getNodeAvailability(ip, now);
+    if (availability) results.push(availability);
+  });
+  return results;
+}
+
+// ============================================
+// Serialization (Persistence)
+// ============================================
+
+export type SerializedAvailability = Array<[string, ProbeSegment[]]>;
+
+export function exportAvailability(): SerializedAvailability {
+  return Array.from(segmentsByIp.entries());
+}
+
+export function importAvailability(data: SerializedAvailability): void {
+  segmentsByIp = new Map(data);
+}
+
+export function clearAvailability(): void {
+  segmentsByIp.clear();
+}
@@ -0,0 +1,66 @@
+/**
+ * Xandeum Explorer - Briefing Cache
+ * Keeps the latest AI network briefing so requests rarely wait on the model
+ */
+
+import logger from "../lib/logger";
+import { aiGenerateBriefing } from "../lib/ai";
+import * as store from "./store";
+import type { AIBriefing } from "../types";
+
+// Configuration
+const BRIEFING_CACHE_TTL_MS = parseInt(process.env.BRIEFING_CACHE_TTL_MS || "21600000", 10); // 6 hours
+
+let cache: { data: AIBriefing | null; timestamp: number } = {
+  data: null,
+  timestamp: 0,
+};
+
+/**
+ * Generate a briefing from current network stats and cache it
+ */
+export async function generateBriefing(): Promise<AIBriefing> {
+  logger.ai("briefing", "Generating fresh briefing");
+  
+  const briefing = await aiGenerateBriefing(store.calculateNetworkStats());
+  cache = {
+    data: briefing,
+    timestamp: Date.now(),
+  };
+  
+  return briefing;
+}
+
+/**
+ * Get the cached briefing, generating one when it is missing or expired
+ */
+export async function getBriefing(now: number = Date.now()): Promise<AIBriefing> {
+  if (cache.data && (now - cache.timestamp) < BRIEFING_CACHE_TTL_MS) {
+    logger.ai("briefing", "Returning cached briefing");
+    return { ...cache.data, cached: true };
+  }
+  
+  return generateBriefing();
+}
+
+export function clearBriefingCache(): void {
+  cache = { data: null, timestamp: 0 };
+  logger.ai("briefing", "Cache cleared");
+}
+
+/**
+ * Describe the cache (for job results and diagnostics)
+ */
+export function getBriefingCacheStatus(now: number = Date.now()): {
+  cached: boolean;
+  generatedAt: string | null;
+  ageMs: number | null;
+  ttlMs: number;
+} {
+  return {
+    cached: cache.data !== null,
+    generatedAt: cache.data?.generatedAt ?? null,
+    ageMs: cache.data ? now - cache.timestamp : null,
+    ttlMs: BRIEFING_CACHE_TTL_MS,
+  };
+}
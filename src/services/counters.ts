@@ -0,0 +1,71 @@
+/**
+ * Xandeum Explorer - Traffic Counters
+ * Previous counter sample per node, used to derive per-interval rates
+ */
+
+import logger from "../lib/logger";
+import { sampleCounters, calculateTrafficRates } from "../lib/rates";
+import type { CounterSample, NodeStats, TrafficRates } from "../types";
+
+let samplesByKey = new Map<string, CounterSample>();
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Record a node's counters as of the time they were read and derive rates from the previous sample
+ */
+export function recordCounterSample(
+  key: string,
+  stats: NodeStats,
+  timestamp: number
+): { rates: TrafficRates | null; restarted: boolean } {
+  const sample = sampleCounters(stats, timestamp);
+  const result = calculateTrafficRates(samplesByKey.get(key), sample);
+  samplesByKey.set(key, sample);
+  
+  if (result.restarted) {
+    logger.debug(`Restart detected for ${key}`);
+  }
+  return result;
+}
+
+/**
+ * Forget nodes that are no longer tracked
+ */
+export function pruneCounterSamples(isTracked: (key: string) => boolean): void {
+  for (const key of samplesByKey.keys()) {
+    if (!isTracked(key)) samplesByKey.delete(key);
+  }
+}
+
+/**
+ * Move samples to the new keys of re-keyed nodes (old key -> new key)
+ */
+export function rekeyCounterSamples(renamed: Map<string, string>): void {
+  renamed.forEach((to, from) => {
+    const sample = samplesByKey.get(from);
+    if (!sample || samplesByKey.has(to)) return;
+    samplesByKey.delete(from);
+    samplesByKey.set(to, sample);
+  });
+}
+
+// ============================================
+// Serialization (Persistence)
+// ============================================
+
+export type SerializedCounterSamples = Array<[string, CounterSample]>;
+
+export function exportCounterSamples(): SerializedCounterSamples {
+  return Array.from(samplesByKey.entries());
+}
+
+export function importCounterSamples(data: SerializedCounterSamples): void {
+  samplesByKey = new Map(data);
+}
+
+export function clearCounterSamples(): void {
+  samplesByKey.clear();
+}
@@ -0,0 +1,158 @@
+/**
+ * Xandeum Explorer - Gossip Crawler
+ * Breadth-first get-pods crawl across reachable pNodes to find pods the bootstraps miss
+ */
+
+import logger from "../lib/logger";
+import { getPeerPods } from "../lib/prpc";
+import { extractIp } from "../lib/format";
+import type { DiscoveredPod } from "../types";
+
+// Configuration
+const CRAWL_ENABLED = process.env.CRAWL_ENABLED === "true";
+const CRAWL_MAX_DEPTH = parseInt(process.env.CRAWL_MAX_DEPTH || "2", 10);
+const CRAWL_CONCURRENCY = parseInt(process.env.CRAWL_CONCURRENCY || "10", 10);
+const CRAWL_TIME_BUDGET_MS = parseInt(process.env.CRAWL_TIME_BUDGET_MS || "20000", 10);
+
+export interface CrawlResult {
+  pods: DiscoveredPod[]; // Input pods merged with everything crawled
+  peerViews: Map<string, string[]>; // Peer IP -> addresses it reported
+  queried: number;
+  responded: number;
+  discovered: number; // Addresses not in the input pods
+  depthReached: number;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+export type CrawlSummary = Omit<CrawlResult, "pods" | "peerViews"> & { finishedAt: Date };
+
+let lastCrawl: CrawlSummary | null = null;
+
+/**
+ * Crawl get-pods breadth-first starting from seed IPs
+ * Depth 1 queries the seeds; pods they report that are new become the next frontier
+ * endpointFor supplies a discovered RPC URL for an IP (default port otherwise)
+ */
+export async function crawlGossip(
+  seedIps: string[],
+  knownPods: DiscoveredPod[],
+  endpointFor: (ip: string) => string | undefined = () => undefined
+): Promise<CrawlResult> {
+  const startTime = Date.now();
+  const deadline = startTime + CRAWL_TIME_BUDGET_MS;
+  
+  const merged = new Map<string, DiscoveredPod>(
+    knownPods.map(p => [p.address, { ...p, reportedBy: [...p.reportedBy] }])
+  );
+  const peerViews = new Map<string, string[]>();
+  const visited = new Set<string>();
+  
+  let frontier = [...new Set(seedIps)];
+  let queried = 0;
+  let responded = 0;
+  let discovered = 0;
+  let depthReached = 0;
+  let timedOut = false;
+  
+  const pLimit = (await import("p-limit")).default;
+  const limit = pLimit(CRAWL_CONCURRENCY);
+  
+  for (let depth = 1; depth <= CRAWL_MAX_DEPTH && frontier.length > 0; depth++) {
+    if (Date.now() >= deadline) {
+      timedOut = true;
+      break;
+    }
+    
+    depthReached = depth;
+    const next = new Set<string>();
+    logger.crawler(`Depth ${depth}: querying ${frontier.length} peers`);
+    
+    await Promise.all(frontier.map(ip => limit(async () => {
+      if (Date.now() >= deadline) {
+        timedOut = true;
+        return;
+      }
+      
+      visited.add(ip);
+      queried++;
+      
+      let pods;
+      try {
+        pods = await getPeerPods(ip, endpointFor(ip));
+      } catch {
+        return;
+      }
+      
+      responded++;
+      peerViews.set(ip, pods.map(p => p.address));
+      
+      for (const pod of pods) {
+        const existing = merged.get(pod.address);
+        
+        if (!existing) {
+          merged.set(pod.address, { ...pod, reportedBy: [ip] });
+          discovered++;
+          next.add(extractIp(pod.address));
+          continue;
+        }
+        
+        if (!existing.reportedBy.includes(ip)) {
+          existing.reportedBy.push(ip);
+        }
+        if ((pod.last_seen_timestamp ?? 0) > (existing.last_seen_timestamp ?? 0)) {
+          merged.set(pod.address, { 
+            ...pod, 
+            pubkey: pod.pubkey ?? existing.pubkey, 
+            version: pod.version ?? existing.version, 
+            reportedBy: existing.reportedBy,
+          });
+        }
+      }
+    })));
+    
+    frontier = [...next].filter(ip => !visited.has(ip));
+  }
+  
+  const durationMs = Date.now() - startTime;
+  lastCrawl = { queried, responded, discovered, depthReached, timedOut, durationMs, finishedAt: new Date() };
+  
+  logger.crawler("Crawl complete", { ...lastCrawl, finishedAt: undefined });
+  
+  return {
+    pods: Array.from(merged.values()),
+    peerViews,
+    queried,
+    responded,
+    discovered,
+    depthReached,
+    timedOut,
+    durationMs,
+  };
+}
+
+/**
+ * Check if the gossip crawl is enabled
+ */
+export function isCrawlEnabled(): boolean {
+  return CRAWL_ENABLED;
+}
+
+/**
+ * Get crawl configuration and the last run summary
+ */
+export function getCrawlStatus(): {
+  enabled: boolean;
+  maxDepth: number;
+  concurrency: number;
+  timeBudgetMs: number;
+  lastCrawl: CrawlSummary | null;
+} {
+  return {
+    enabled: CRAWL_ENABLED,
+    maxDepth: CRAWL_MAX_DEPTH,
+    concurrency: CRAWL_CONCURRENCY,
+    timeBudgetMs: CRAWL_TIME_BUDGET_MS,
+    lastCrawl,
+  };
+}
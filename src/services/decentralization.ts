@@ -0,0 +1,250 @@
+/**
+ * Xandeum Explorer - Decentralization Metrics
+ * Concentration measures (HHI, Nakamoto coefficient, top-N share, entropy) per dimension, with rollup history
+ */
+
+import { isIpv6, ipv6ToGroups, extractIp } from "../lib/format";
+import { addSample, toRollupPoints, getRollupConfig, ROLLUP_RESOLUTIONS, type MetricBucket } from "./metrics";
+import type {
+  XandeumNode,
+  DecentralizationDimension,
+  DecentralizationWeight,
+  ConcentrationMetric,
+  ConcentrationGroup,
+  ConcentrationStats,
+  RollupResolution,
+  MetricRollupPoint
+} from "../types";
+
+// Configuration
+// Share the Nakamoto coefficient's groups must exceed together (0.5 = majority)
+const NAKAMOTO_THRESHOLD = parseFloat(process.env.DECENTRALIZATION_NAKAMOTO_THRESHOLD || "0.5");
+const DEFAULT_TOP_N = parseInt(process.env.DECENTRALIZATION_TOP_N || "5", 10);
+const TOP_GROUPS_LIMIT = 10;
+
+export const DECENTRALIZATION_DIMENSIONS: DecentralizationDimension[] = [
+  "country", "city", "version", "subnet", "provider",
+];
+export const DECENTRALIZATION_WEIGHTS: DecentralizationWeight[] = ["nodes", "storage"];
+export const CONCENTRATION_METRICS: ConcentrationMetric[] = [
+  "hhi", "nakamoto", "topShare", "entropy", "normalizedEntropy",
+];
+
+/**
+ * Group key (and display label) of a node per dimension; null when unknown
+ */
+const DIMENSION_KEYS: Record<DecentralizationDimension, (node: XandeumNode) => { key: string; label?: string } | null> = {
+  country: n => (n.geo && n.geo.country !== "Unknown" ? { key: n.geo.country } : null),
+  city: n => (n.geo && n.geo.city !== "Unknown" ? { key: `${n.geo.city}, ${n.geo.countryCode}` } : null),
+  version: n => (n.version ? { key: n.version } : null),
+  subnet: n => {
+    const subnet = subnetOf(extractIp(n.address));
+    return subnet ? { key: subnet } : null;
+  },
+  provider: n => {
+    if (n.geo?.asn !== undefined) return { key: `AS${n.geo.asn}`, label: n.geo.org };
+    return n.geo?.org ? { key: n.geo.org } : null;
+  },
+};
+
+const WEIGHTS: Record<DecentralizationWeight, (node: XandeumNode) => number> = {
+  nodes: () => 1,
+  storage: n => n.stats?.file_size || 0,
+};
+
+/**
+ * The /24 an IPv4 address belongs to (/48 for IPv6, the usual single-site allocation)
+ */
+function subnetOf(ip: string): string | null {
+  if (isIpv6(ip)) {
+    const groups = ipv6ToGroups(ip);
+    return groups ? `${groups.slice(0, 3).map(g => g.toString(16)).join(":")}::/48` : null;
+  }
+  
+  const parts = ip.split(".");
+  return parts.length === 4 ? `${parts.slice(0, 3).join(".")}.0/24` : null;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================
+// Calculation
+// ============================================
+
+/**
+ * Concentration of nodes along one dimension
+ * Nodes with no value for the dimension or no weight (e.g. no storage reported) are
+ * counted as unknown; only the former add to unknownWeight, the latter have none to add
+ */
+export function calculateConcentration(
+  nodes: XandeumNode[],
+  dimension: DecentralizationDimension,
+  weight: DecentralizationWeight = "nodes",
+  topN: number = DEFAULT_TOP_N
+): ConcentrationStats {
+  const groups = new Map<string, ConcentrationGroup>();
+  let knownWeight = 0;
+  let unknownWeight = 0;
+  let unknownNodes = 0;
+  
+  for (const node of nodes) {
+    const value = WEIGHTS[weight](node);
+    const group = DIMENSION_KEYS[dimension](node);
+    
+    if (!group || value <= 0) {
+      unknownWeight += value;
+      unknownNodes++;
+      continue;
+    }
+    
+    let entry = groups.get(group.key);
+    if (!entry) {
+      entry = { key: group.key, label: group.label, nodes: 0, weight: 0, share: 0 };
+      groups.set(group.key, entry);
+    }
+    entry.nodes++;
+    entry.weight += value;
+    knownWeight += value;
+  }
+  
+  const sorted = Array.from(groups.values())
+    .map(g => ({ ...g, share: knownWeight > 0 ? (g.weight / knownWeight) * 100 : 0 }))
+    .sort((a, b) => b.weight - a.weight || a.key.localeCompare(b.key));
+  
+  let hhi = 0;
+  let entropy = 0;
+  let nakamoto = 0;
+  let cumulative = 0;
+  
+  for (const group of sorted) {
+    const p = group.share / 100;
+    hhi += group.share ** 2;
+    entropy -= p * Math.log2(p);
+    
+    if (cumulative <= NAKAMOTO_THRESHOLD * 100) {
+      cumulative += group.share;
+      nakamoto++;
+    }
+  }
+  
+  const topShare = sorted.slice(0, topN).reduce((sum, g) => sum + g.share, 0);
+  
+  return {
+    dimension,
+    weight,
+    groups: sorted.length,
+    knownWeight,
+    unknownWeight,
+    unknownNodes,
+    hhi: round(hhi, 2),
+    nakamoto,
+    topShare: round(topShare, 2),
+    entropy: round(entropy, 4),
+    normalizedEntropy: sorted.length > 1 ? round(entropy / Math.log2(sorted.length), 4) : 0,
+    top: sorted.slice(0, TOP_GROUPS_LIMIT).map(g => ({ ...g, share: round(g.share, 2) })),
+  };
+}
+
+/**
+ * Nodes that count towards decentralization (offline nodes are still retained for a while)
+ */
+export function getActiveNodes(nodes: XandeumNode[]): XandeumNode[] {
+  return nodes.filter(n => n.status !== "offline");
+}
+
+export function getDecentralizationConfig(): { nakamotoThreshold: number; topN: number } {
+  return { nakamotoThreshold: NAKAMOTO_THRESHOLD, topN: DEFAULT_TOP_N };
+}
+
+// ============================================
+// History
+// ============================================
+
+// Series key: "<dimension>:<weight>:<metric>"
+type HistorySeries = Record<string, MetricBucket[]>;
+
+function createHistory(): Record<RollupResolution, HistorySeries> {
+  return { "1m": {}, "1h": {}, "1d": {} };
+}
+
+let history = createHistory();
+
+function seriesKey(dimension: DecentralizationDimension, weight: DecentralizationWeight, metric: ConcentrationMetric): string {
+  return `${dimension}:${weight}:${metric}`;
+}
+
+/**
+ * Record every dimension and weight into all rollup resolutions (call once per history rollup)
+ * Weights no node reports (e.g. storage before any stats arrive) are skipped
+ */
+export function recordDecentralization(nodes: XandeumNode[], now: number = Date.now()): void {
+  const active = getActiveNodes(nodes);
+  const config = getRollupConfig();
+  
+  for (const weight of DECENTRALIZATION_WEIGHTS) {
+    for (const dimension of DECENTRALIZATION_DIMENSIONS) {
+      const stats = calculateConcentration(active, dimension, weight);
+      if (stats.knownWeight === 0) continue;
+      
+      for (const metric of CONCENTRATION_METRICS) {
+        const key = seriesKey(dimension, weight, metric);
+        for (const resolution of ROLLUP_RESOLUTIONS) {
+          const buckets = history[resolution][key] || (history[resolution][key] = []);
+          addSample(buckets, stats[metric], now, config[resolution]);
+        }
+      }
+    }
+  }
+}
+
+export function isDecentralizationDimension(value: string): value is DecentralizationDimension {
+  return DECENTRALIZATION_DIMENSIONS.includes(value as DecentralizationDimension);
+}
+
+export function isDecentralizationWeight(value: string): value is DecentralizationWeight {
+  return DECENTRALIZATION_WEIGHTS.includes(value as DecentralizationWeight);
+}
+
+export function isConcentrationMetric(value: string): value is ConcentrationMetric {
+  return CONCENTRATION_METRICS.includes(value as ConcentrationMetric);
+}
+
+/**
+ * Get rollup points for one metric of one dimension, optionally bounded by a start time
+ */
+export function getDecentralizationHistory(
+  dimension: DecentralizationDimension,
+  weight: DecentralizationWeight,
+  metric: ConcentrationMetric,
+  resolution: RollupResolution,
+  since?: number
+): MetricRollupPoint[] {
+  return toRollupPoints(history[resolution][seriesKey(dimension, weight, metric)] || [], since);
+}
+
+// ============================================
+// Serialization (Persistence)
+// ============================================
+
+export type SerializedDecentralizationHistory = Record<RollupResolution, HistorySeries>;
+
+export function exportDecentralizationHistory(): SerializedDecentralizationHistory {
+  return JSON.parse(JSON.stringify(history));
+}
+
+export function importDecentralizationHistory(data: SerializedDecentralizationHistory): void {
+  const next = createHistory();
+  
+  for (const resolution of ROLLUP_RESOLUTIONS) {
+    Object.assign(next[resolution], data[resolution] || {});
+  }
+  
+  history = next;
+}
+
+export function clearDecentralizationHistory(): void {
+  history = createHistory();
+}
@@ -4,3 +4,14 @@
 
 export * as store from "./store";
 export * as sync from "./sync";
+export * as persistence from "./persistence";
+export * as metrics from "./metrics";
+export * as availability from "./availability";
+export * as latency from "./latency";
+export * as snapshot from "./snapshot";
+export * as crawler from "./crawler";
+export * as schedule from "./schedule";
+export * as progress from "./progress";
+export * as jobs from "./jobs";
+export * as briefing from "./briefing";
+export * as decentralization from "./decentralization";
@@ -0,0 +1,553 @@
+/**
+ * Xandeum Explorer - Job Scheduler
+ * Named background jobs on interval or cron schedules, with overlap locks and run history
+ */
+
+import logger from "../lib/logger";
+import { refreshGeoLocations } from "../lib/geo";
+import { extractIp } from "../lib/format";
+import { isAiConfigured } from "../lib/ai";
+import * as store from "./store";
+import { syncOnce, cleanupStaleNodes, getSyncConfig } from "./sync";
+import { generateBriefing, getBriefingCacheStatus } from "./briefing";
+import type { JobSchedule, JobTrigger, JobRun, JobInfo } from "../types";
+
+// Configuration
+const JOB_RUN_HISTORY = parseInt(process.env.JOB_RUN_HISTORY || "50", 10); // Per job
+// Jobs listed here are registered paused (comma-separated names)
+const JOBS_PAUSED = (process.env.JOBS_PAUSED || "").split(",").map(s => s.trim()).filter(Boolean);
+// A scheduled run that finds its lock held is retried after this delay
+const LOCK_RETRY_MS = 5000;
+// setTimeout overflows above ~24.8 days, so longer waits are re-armed
+const MAX_TIMER_MS = 2 ** 31 - 1;
+const MINUTE_MS = 60 * 1000;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  lock?: string;          // Defaults to the job name
+  initialDelayMs?: number; // First scheduled run after start (defaults to the schedule)
+  run: () => Promise<Record<string, unknown> | void>;
+}
+
+interface JobState {
+  definition: JobDefinition;
+  cron: CronFields | null;
+  paused: boolean;
+  running: JobRun | null;
+  runs: JobRun[];
+  nextRunAt: number | null;
+  timer: NodeJS.Timeout | null;
+  runCount: number;
+  failureCount: number;
+}
+
+const jobs = new Map<string, JobState>();
+// Lock name -> job currently holding it
+const heldLocks = new Map<string, string>();
+let schedulerRunning = false;
+let nextRunId = 1;
+
+// ============================================
+// Cron Expressions
+// ============================================
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+/**
+ * Parse one cron field: "*", "5", "1-5", ranges or "*" with a "/step", and comma lists of those
+ */
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseInt(from, 10);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseInt(to, 10);
+    }
+    
+    if ([start, end, step].some(isNaN) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields: "${expression}"`);
+  }
+  
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseCronField(field, CRON_RANGES[i][0], CRON_RANGES[i][1])
+  );
+  
+  // 7 is Sunday as well as 0
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+function matchesDay(cron: CronFields, date: Date): boolean {
+  const dom = cron.daysOfMonth.has(date.getUTCDate());
+  const dow = cron.daysOfWeek.has(date.getUTCDay());
+  
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Next time (epoch ms, UTC) strictly after `after` that matches the expression,
+ * or null when it never matches (e.g. "0 0 31 2 *")
+ */
+export function nextCronTime(cron: CronFields, after: number): number | null {
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  
+  // Each step skips a whole non-matching month/day/hour/minute, so a few thousand cover years
+  for (let step = 0; step < 10000; step++) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Parse a schedule setting: a number is an interval in ms, anything else a cron expression
+ */
+export function parseSchedule(spec: string): JobSchedule {
+  const trimmed = spec.trim();
+  
+  if (/^\d+$/.test(trimmed)) {
+    const everyMs = parseInt(trimmed, 10);
+    if (everyMs <= 0) {
+      throw new Error(`Invalid interval "${spec}"`);
+    }
+    return { type: "interval", everyMs };
+  }
+  
+  parseCron(trimmed);
+  return { type: "cron", expression: trimmed };
+}
+
+// ============================================
+// Registry
+// ============================================
+
+function lockOf(job: JobState): string {
+  return job.definition.lock || job.definition.name;
+}
+
+/**
+ * Register a job (throws on a duplicate name or an invalid schedule)
+ */
+export function registerJob(definition: JobDefinition): void {
+  if (jobs.has(definition.name)) {
+    throw new Error(`Job already registered: ${definition.name}`);
+  }
+  
+  const job: JobState = {
+    definition,
+    cron: definition.schedule.type === "cron" ? parseCron(definition.schedule.expression) : null,
+    paused: JOBS_PAUSED.includes(definition.name),
+    running: null,
+    runs: [],
+    nextRunAt: null,
+    timer: null,
+    runCount: 0,
+    failureCount: 0,
+  };
+  jobs.set(definition.name, job);
+  
+  if (schedulerRunning) {
+    armFirstRun(job, Date.now());
+  }
+}
+
+// ============================================
+// Execution
+// ============================================
+
+async function runJob(job: JobState, trigger: JobTrigger): Promise<JobRun> {
+  const { name } = job.definition;
+  const lock = lockOf(job);
+  const startedAt = Date.now();
+  
+  const run: JobRun = {
+    id: nextRunId++,
+    job: name,
+    trigger,
+    status: "running",
+    startedAt: new Date(startedAt),
+    finishedAt: null,
+    durationMs: null,
+    result: null,
+    error: null,
+  };
+  heldLocks.set(lock, name);
+  job.running = run;
+  
+  try {
+    run.result = (await job.definition.run()) || null;
+    run.status = "success";
+  } catch (error) {
+    run.status = "failed";
+    run.error = (error as Error).message;
+    job.failureCount++;
+    logger.error(`Job ${name} failed`, { error: run.error });
+  } finally {
+    heldLocks.delete(lock);
+    job.running = null;
+    job.runCount++;
+    
+    const finishedAt = Date.now();
+    run.finishedAt = new Date(finishedAt);
+    run.durationMs = finishedAt - startedAt;
+    
+    job.runs.push(run);
+    if (job.runs.length > JOB_RUN_HISTORY) {
+      job.runs.splice(0, job.runs.length - JOB_RUN_HISTORY);
+    }
+  }
+  
+  logger.debug(`Job ${name} ${run.status}`, { trigger, durationMs: run.durationMs });
+  return run;
+}
+
+/**
+ * Next scheduled run: intervals count from the previous start (never in the past), crons from now
+ */
+function computeNextRun(job: JobState, lastStartedAt: number, now: number): number | null {
+  const { schedule } = job.definition;
+  
+  if (schedule.type === "interval") {
+    return Math.max(lastStartedAt + schedule.everyMs, now);
+  }
+  return nextCronTime(job.cron!, now);
+}
+
+function armTimer(job: JobState, at: number | null): void {
+  if (job.timer) {
+    clearTimeout(job.timer);
+    job.timer = null;
+  }
+  
+  job.nextRunAt = schedulerRunning && !job.paused ? at : null;
+  if (job.nextRunAt === null) return;
+  
+  const delay = Math.min(Math.max(0, job.nextRunAt - Date.now()), MAX_TIMER_MS);
+  job.timer = setTimeout(() => {
+    job.timer = null;
+    void onTimer(job);
+  }, delay);
+}
+
+function armFirstRun(job: JobState, now: number): void {
+  const { initialDelayMs } = job.definition;
+  armTimer(job, initialDelayMs !== undefined ? now + initialDelayMs : computeNextRun(job, now, now));
+}
+
+async function onTimer(job: JobState): Promise<void> {
+  const now = Date.now();
+  
+  // Long waits are armed in MAX_TIMER_MS chunks
+  if (job.nextRunAt !== null && job.nextRunAt > now) {
+    armTimer(job, job.nextRunAt);
+    return;
+  }
+  
+  const holder = heldLocks.get(lockOf(job));
+  if (holder) {
+    logger.debug(`Job ${job.definition.name} deferred, lock held by ${holder}`);
+    armTimer(job, now + LOCK_RETRY_MS);
+    return;
+  }
+  
+  job.nextRunAt = null;
+  await runJob(job, "schedule");
+  
+  // Paused or stopped while running: armTimer leaves it idle
+  armTimer(job, computeNextRun(job, now, Date.now()));
+}
+
+// ============================================
+// Control
+// ============================================
+
+/**
+ * Start scheduling every registered job
+ */
+export function startJobs(): void {
+  if (schedulerRunning) {
+    logger.warn("Job scheduler already running");
+    return;
+  }
+  
+  schedulerRunning = true;
+  const now = Date.now();
+  jobs.forEach(job => armFirstRun(job, now));
+  
+  logger.info(`Job scheduler started (${jobs.size} jobs)`, {
+    paused: Array.from(jobs.values()).filter(j => j.paused).map(j => j.definition.name),
+  });
+}
+
+/**
+ * Stop scheduling (running jobs finish on their own)
+ */
+export function stopJobs(): void {
+  if (!schedulerRunning) return;
+  
+  schedulerRunning = false;
+  jobs.forEach(job => armTimer(job, null));
+  logger.info("Job scheduler stopped");
+}
+
+export function isSchedulerRunning(): boolean {
+  return schedulerRunning;
+}
+
+export function hasJob(name: string): boolean {
+  return jobs.has(name);
+}
+
+/**
+ * Run a job now, paused or not
+ * Returns null when the job (or another job sharing its lock) is already running
+ */
+export function triggerJob(name: string): Promise<JobRun> | null {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+  if (heldLocks.has(lockOf(job))) {
+    return null;
+  }
+  
+  logger.job(name, "Triggered manually");
+  return runJob(job, "manual");
+}
+
+/**
+ * Run work outside the registry while holding a job lock, so jobs sharing it wait
+ * Returns null when the lock is already held
+ */
+export function runWithLock<T>(lock: string, holder: string, work: () => Promise<T>): Promise<T> | null {
+  if (heldLocks.has(lock)) {
+    return null;
+  }
+  
+  heldLocks.set(lock, holder);
+  return work().finally(() => heldLocks.delete(lock));
+}
+
+/**
+ * Stop scheduling a job until resumed (a run in progress is not interrupted)
+ */
+export function pauseJob(name: string): JobInfo | null {
+  const job = jobs.get(name);
+  if (!job) return null;
+  
+  job.paused = true;
+  armTimer(job, null);
+  logger.job(name, "Paused");
+  return toJobInfo(job);
+}
+
+/**
+ * Resume a paused job; its next run is computed from now
+ */
+export function resumeJob(name: string): JobInfo | null {
+  const job = jobs.get(name);
+  if (!job) return null;
+  
+  if (job.paused) {
+    job.paused = false;
+    const now = Date.now();
+    armTimer(job, computeNextRun(job, now, now));
+    logger.job(name, "Resumed");
+  }
+  return toJobInfo(job);
+}
+
+// ============================================
+// Queries
+// ============================================
+
+function toJobInfo(job: JobState): JobInfo {
+  const { definition } = job;
+  
+  return {
+    name: definition.name,
+    description: definition.description,
+    schedule: definition.schedule,
+    lock: lockOf(job),
+    paused: job.paused,
+    running: job.running,
+    lastRun: job.runs[job.runs.length - 1] || null,
+    nextRunAt: job.nextRunAt !== null ? new Date(job.nextRunAt) : null,
+    runCount: job.runCount,
+    failureCount: job.failureCount,
+  };
+}
+
+export function getJobs(): JobInfo[] {
+  return Array.from(jobs.values()).map(toJobInfo);
+}
+
+export function getJob(name: string): JobInfo | null {
+  const job = jobs.get(name);
+  return job ? toJobInfo(job) : null;
+}
+
+/**
+ * Get finished runs, newest first (all jobs when name is omitted)
+ */
+export function getJobRuns(name?: string, limit: number = JOB_RUN_HISTORY): JobRun[] {
+  const source = name ? [jobs.get(name)].filter((j): j is JobState => j !== undefined) : Array.from(jobs.values());
+  
+  return source
+    .flatMap(job => job.runs)
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+    .slice(0, limit);
+}
+
+// ============================================
+// Built-in Jobs
+// ============================================
+
+/**
+ * Schedule from JOB_<NAME>_SCHEDULE, falling back to the default when unset or invalid
+ */
+function scheduleFromEnv(name: string, fallback: string): JobSchedule {
+  const variable = `JOB_${name.toUpperCase().replace(/-/g, "_")}_SCHEDULE`;
+  const spec = process.env[variable];
+  
+  if (spec) {
+    try {
+      return parseSchedule(spec);
+    } catch (error) {
+      logger.warn(`Invalid ${variable}, using default "${fallback}"`, { error: (error as Error).message });
+    }
+  }
+  return parseSchedule(fallback);
+}
+
+/**
+ * Register the explorer's background jobs (sync, crawl, geo, cleanup, briefing)
+ */
+export function registerDefaultJobs(): void {
+  const { intervalMs } = getSyncConfig();
+  
+  registerJob({
+    name: "sync",
+    description: "Fetch pods, geolocate new IPs, probe nodes that are due and record history rollups",
+    schedule: scheduleFromEnv("sync", String(intervalMs)),
+    initialDelayMs: 5000,
+    async run() {
+      const { success, error, ...result } = await syncOnce();
+      if (!success) throw new Error(error || "Sync failed");
+      return result;
+    },
+  });
+  
+  // Shares the sync lock: a crawl is a sync with the gossip crawl forced on
+  registerJob({
+    name: "crawl",
+    description: "Full sync including a recursive get-pods crawl of responsive nodes",
+    schedule: scheduleFromEnv("crawl", "30 * * * *"),
+    lock: "sync",
+    async run() {
+      const { success, error, ...result } = await syncOnce({ crawl: true });
+      if (!success) throw new Error(error || "Crawl failed");
+      return result;
+    },
+  });
+  
+  registerJob({
+    name: "geo-refresh",
+    description: "Look up tracked IPs whose geo cache entry is missing or expired (failed lookups back off)",
+    schedule: scheduleFromEnv("geo-refresh", "15 * * * *"),
+    async run() {
+      const hosts = store.getAllNodes().map(node => extractIp(node.address));
+      return refreshGeoLocations(hosts);
+    },
+  });
+  
+  registerJob({
+    name: "stale-cleanup",
+    description: "Remove nodes unseen for STALE_RETENTION_DAYS",
+    schedule: scheduleFromEnv("stale-cleanup", "0 * * * *"),
+    async run() {
+      const result = cleanupStaleNodes();
+      if (result.removed > 0) {
+        logger.job("stale-cleanup", `Removed ${result.removed} stale nodes`);
+      }
+      return result;
+    },
+  });
+  
+  registerJob({
+    name: "briefing",
+    description: "Pre-generate the AI network briefing so /ai/briefing is served from cache",
+    schedule: scheduleFromEnv("briefing", "0 */6 * * *"),
+    initialDelayMs: 2 * MINUTE_MS,
+    async run() {
+      if (!isAiConfigured()) {
+        return { generated: false, skipped: "OPENROUTER_API_KEY not set" };
+      }
+      if (store.getStoreSize() === 0) {
+        return { generated: false, skipped: "No nodes tracked yet" };
+      }
+      
+      await generateBriefing();
+      return { generated: true, ...getBriefingCacheStatus() };
+    },
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * Xandeum Explorer - Probe Latency
+ * Rolling RTT samples per node with percentile breakdowns
+ */
+
+import { percentile, extractIp } from "../lib/format";
+import type {
+  NodeProbe,
+  XandeumNode,
+  LatencyStats,
+  NodeLatency,
+  LatencyGroup
+} from "../types";
+
+// Configuration
+const LATENCY_SAMPLE_SIZE = parseInt(process.env.LATENCY_SAMPLE_SIZE || "120", 10);
+
+let samplesByIp = new Map<string, number[]>();
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Record RTTs from a probe sweep (failed probes carry no RTT and are skipped)
+ */
+export function recordProbeLatencies(probes: Map<string, NodeProbe>): void {
+  probes.forEach((probe, ip) => {
+    if (probe.stats === null || probe.latency.rttMs === null) return;
+    
+    let samples = samplesByIp.get(ip);
+    if (!samples) {
+      samples = [];
+      samplesByIp.set(ip, samples);
+    }
+    
+    samples.push(probe.latency.rttMs);
+    if (samples.length > LATENCY_SAMPLE_SIZE) {
+      samples.shift();
+    }
+  });
+}
+
+/**
+ * Forget nodes that are no longer tracked
+ */
+export function pruneLatency(isTracked: (ip: string) => boolean): void {
+  for (const ip of samplesByIp.keys()) {
+    if (!isTracked(ip)) samplesByIp.delete(ip);
+  }
+}
+
+/**
+ * Move samples to the new keys of re-keyed nodes (old key -> new key)
+ */
+export function rekeyLatency(renamed: Map<string, string>): void {
+  renamed.forEach((to, from) => {
+    const samples = samplesByIp.get(from);
+    if (!samples || samplesByIp.has(to)) return;
+    samplesByIp.delete(from);
+    samplesByIp.set(to, samples);
+  });
+}
+
+// ============================================
+// Queries
+// ============================================
+
+function calculateLatencyStats(samples: number[]): LatencyStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  
+  return {
+    samples: sorted.length,
+    minMs: sorted.length > 0 ? sorted[0] : null,
+    p50Ms: percentile(sorted, 50),
+    p95Ms: percentile(sorted, 95),
+    p99Ms: percentile(sorted, 99),
+    maxMs: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+  };
+}
+
+/**
+ * Get latency percentiles for one node
+ */
+export function getNodeLatency(key: string): NodeLatency | null {
+  const samples = samplesByIp.get(key);
+  if (!samples || samples.length === 0) {
+    return null;
+  }
+  
+  return {
+    key,
+    ip: extractIp(key),
+    lastRttMs: samples[samples.length - 1],
+    ...calculateLatencyStats(samples),
+  };
+}
+
+/**
+ * Get latency percentiles for every node with samples
+ */
+export function getAllNodeLatency(): NodeLatency[] {
+  const results: NodeLatency[] = [];
+  samplesByIp.forEach((_, ip) => {
+    const latency = getNodeLatency(ip);
+    if (latency) results.push(latency);
+  });
+  return results;
+}
+
+/**
+ * Pool samples by a node attribute (e.g. country, version) and compute percentiles per group
+ */
+export function getLatencyByGroup(
+  nodes: XandeumNode[],
+  keyOf: (node: XandeumNode) => string
+): LatencyGroup[] {
+  const groups = new Map<string, { samples: number[]; nodes: number }>();
+  
+  for (const node of nodes) {
+    const samples = samplesByIp.get(node.key);
+    if (!samples || samples.length === 0) continue;
+    
+    const key = keyOf(node);
+    const group = groups.get(key) || { samples: [], nodes: 0 };
+    group.samples.push(...samples);
+    group.nodes++;
+    groups.set(key, group);
+  }
+  
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, nodes: group.nodes, ...calculateLatencyStats(group.samples) }))
+    .sort((a, b) => b.nodes - a.nodes);
+}
+
+// ============================================
+// Serialization (Persistence)
+// ============================================
+
+export type SerializedLatency = Array<[string, number[]]>;
+
+export function exportLatency(): SerializedLatency {
+  return Array.from(samplesByIp.entries());
+}
+
+export function importLatency(data: SerializedLatency): void {
+  samplesByIp = new Map(data);
+}
+
+export function clearLatency(): void {
+  samplesByIp.clear();
+}
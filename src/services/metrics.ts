@@ -0,0 +1,203 @@
+/**
+ * Xandeum Explorer - Network Metric History
+ * Rolls each sync's aggregate stats into min/avg/max buckets for trend lines
+ */
+
+import type {
+  NetworkStats,
+  NetworkMetric,
+  RollupResolution,
+  MetricRollupPoint
+} from "../types";
+
+// ============================================
+// Configuration
+// ============================================
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const ROLLUPS: Record<RollupResolution, { bucketMs: number; retentionMs: number }> = {
+  "1m": {
+    bucketMs: MINUTE_MS,
+    retentionMs: parseInt(process.env.METRICS_MINUTE_RETENTION_HOURS || "48", 10) * HOUR_MS,
+  },
+  "1h": {
+    bucketMs: HOUR_MS,
+    retentionMs: parseInt(process.env.METRICS_HOURLY_RETENTION_DAYS || "90", 10) * DAY_MS,
+  },
+  "1d": {
+    bucketMs: DAY_MS,
+    retentionMs: parseInt(process.env.METRICS_DAILY_RETENTION_DAYS || "730", 10) * DAY_MS,
+  },
+};
+
+/**
+ * Extract every tracked metric from a network stats snapshot
+ */
+const METRIC_EXTRACTORS: Record<NetworkMetric, (stats: NetworkStats) => number> = {
+  totalNodes: s => s.summary.totalNodes,
+  onlineNodes: s => s.summary.onlineNodes,
+  offlineNodes: s => s.summary.offlineNodes,
+  onlinePercent: s => s.summary.onlinePercent,
+  networkScore: s => s.summary.networkScore,
+  avgHealthScore: s => s.performance.avgHealthScore,
+  avgCpuPercent: s => s.performance.avgCpuPercent,
+  avgRamPercent: s => s.performance.avgRamPercent,
+  totalRamBytes: s => s.storage.totalRamBytes,
+  usedRamBytes: s => s.storage.usedRamBytes,
+  totalPages: s => s.storage.totalPages,
+  totalPackets: s => s.traffic.totalPackets,
+  currentPacketsPerSecond: s => s.traffic.currentPacketsPerSecond,
+  totalActiveStreams: s => s.traffic.totalActiveStreams,
+};
+
+export const NETWORK_METRICS = Object.keys(METRIC_EXTRACTORS) as NetworkMetric[];
+export const ROLLUP_RESOLUTIONS = Object.keys(ROLLUPS) as RollupResolution[];
+
+// ============================================
+// State
+// ============================================
+
+export interface MetricBucket {
+  start: number; // Bucket start (epoch ms)
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+}
+
+type RollupSeries = Record<NetworkMetric, MetricBucket[]>;
+
+function createSeries(): RollupSeries {
+  return Object.fromEntries(NETWORK_METRICS.map(m => [m, []])) as unknown as RollupSeries;
+}
+
+let rollups: Record<RollupResolution, RollupSeries> = {
+  "1m": createSeries(),
+  "1h": createSeries(),
+  "1d": createSeries(),
+};
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Fold a single value into a bucket series, pruning expired buckets
+ */
+export function addSample(
+  buckets: MetricBucket[],
+  value: number,
+  now: number,
+  config: { bucketMs: number; retentionMs: number }
+): void {
+  const start = Math.floor(now / config.bucketMs) * config.bucketMs;
+  const last = buckets[buckets.length - 1];
+  
+  if (last && last.start === start) {
+    last.min = Math.min(last.min, value);
+    last.max = Math.max(last.max, value);
+    last.sum += value;
+    last.count++;
+  } else {
+    buckets.push({ start, min: value, max: value, sum: value, count: 1 });
+  }
+  
+  const cutoff = now - config.retentionMs;
+  let expired = 0;
+  while (expired < buckets.length && buckets[expired].start < cutoff) {
+    expired++;
+  }
+  if (expired > 0) {
+    buckets.splice(0, expired);
+  }
+}
+
+/**
+ * Record a network stats snapshot into all rollup resolutions (call once per sync)
+ */
+export function recordNetworkSnapshot(stats: NetworkStats, now: number = Date.now()): void {
+  for (const metric of NETWORK_METRICS) {
+    const value = METRIC_EXTRACTORS[metric](stats);
+    
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      addSample(rollups[resolution][metric], value, now, ROLLUPS[resolution]);
+    }
+  }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+export function isNetworkMetric(value: string): value is NetworkMetric {
+  return Object.hasOwn(METRIC_EXTRACTORS, value);
+}
+
+export function isRollupResolution(value: string): value is RollupResolution {
+  return Object.hasOwn(ROLLUPS, value);
+}
+
+/**
+ * Get rollup points for a metric, optionally bounded by a start time
+ */
+export function getMetricHistory(
+  metric: NetworkMetric,
+  resolution: RollupResolution,
+  since?: number
+): MetricRollupPoint[] {
+  return toRollupPoints(rollups[resolution][metric], since);
+}
+
+/**
+ * Turn buckets into rollup points, optionally bounded by a start time
+ */
+export function toRollupPoints(buckets: MetricBucket[], since?: number): MetricRollupPoint[] {
+  return buckets
+    .filter(b => since === undefined || b.start >= since)
+    .map(b => ({
+      timestamp: new Date(b.start),
+      min: b.min,
+      avg: Math.round((b.sum / b.count) * 100) / 100,
+      max: b.max,
+      samples: b.count,
+    }));
+}
+
+/**
+ * Get retention configuration per resolution
+ */
+export function getRollupConfig(): Record<RollupResolution, { bucketMs: number; retentionMs: number }> {
+  return ROLLUPS;
+}
+
+// ============================================
+// Serialization (Persistence)
+// ============================================
+
+export type SerializedMetricHistory = Record<RollupResolution, Partial<Record<NetworkMetric, MetricBucket[]>>>;
+
+export function exportMetricHistory(): SerializedMetricHistory {
+  return JSON.parse(JSON.stringify(rollups));
+}
+
+/**
+ * Replace rollups with previously exported data (unknown metrics are dropped)
+ */
+export function importMetricHistory(data: SerializedMetricHistory): void {
+  const next = { "1m": createSeries(), "1h": createSeries(), "1d": createSeries() };
+  
+  for (const resolution of ROLLUP_RESOLUTIONS) {
+    for (const metric of NETWORK_METRICS) {
+      next[resolution][metric] = data[resolution]?.[metric] ?? [];
+    }
+  }
+  
+  rollups = next;
+}
+
+export function clearMetricHistory(): void {
+  rollups = { "1m": createSeries(), "1h": createSeries(), "1d": createSeries() };
+}
@@ -0,0 +1,455 @@
+/**
+ * Xandeum Explorer - Store Persistence
+ * Pluggable storage for store state so restarts keep node data
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import logger from "../lib/logger";
+import { exportGeoCache, importGeoCache, type GeoCacheEntry } from "../lib/geo";
+import * as store from "./store";
+import {
+  exportMetricHistory,
+  importMetricHistory,
+  clearMetricHistory,
+  type SerializedMetricHistory
+} from "./metrics";
+import {
+  exportAvailability,
+  importAvailability,
+  clearAvailability,
+  rekeyAvailability,
+  type SerializedAvailability
+} from "./availability";
+import { exportLatency, importLatency, clearLatency, rekeyLatency, type SerializedLatency } from "./latency";
+import {
+  exportCounterSamples,
+  importCounterSamples,
+  clearCounterSamples,
+  rekeyCounterSamples,
+  type SerializedCounterSamples
+} from "./counters";
+import {
+  exportDecentralizationHistory,
+  importDecentralizationHistory,
+  clearDecentralizationHistory,
+  type SerializedDecentralizationHistory
+} from "./decentralization";
+import type { GeoLocation } from "../types";
+
+// Configuration
+const PERSISTENCE_DRIVER = process.env.PERSISTENCE_DRIVER || "file";
+const DATA_DIR = process.env.DATA_DIR || "./data";
+const PERSIST_MIN_INTERVAL_MS = parseInt(process.env.PERSIST_MIN_INTERVAL_MS || "300000", 10);
+const WRITE_CHUNK_SIZE = 64 * 1024;
+const SNAPSHOT_VERSION = 1;
+
+export interface PersistedSnapshot {
+  version: number;
+  savedAt: string;
+  store: store.SerializedStoreState;
+  geoCache: Array<[string, GeoCacheEntry | GeoLocation | null]>; // Bare locations in older snapshots
+  metrics?: SerializedMetricHistory;
+  availability?: SerializedAvailability;
+  latency?: SerializedLatency;
+  counters?: SerializedCounterSamples;
+  decentralization?: SerializedDecentralizationHistory;
+}
+
+// ============================================
+// Snapshot Schema
+// ============================================
+
+// Dates are serialized as ISO strings; fields not read on import pass through unchecked
+const Timestamp = z.string();
+
+const ActivityPointSchema = z.looseObject({
+  timestamp: Timestamp,
+  status: z.string(),
+  healthScore: z.number(),
+  cpuPercent: z.number(),
+  ramPercent: z.number(),
+});
+
+const GeoLocationSchema = z.looseObject({
+  latitude: z.number(),
+  longitude: z.number(),
+  country: z.string(),
+  countryCode: z.string(),
+  city: z.string(),
+});
+
+const RollupBucketSchema = z.object({
+  start: z.number(),
+  min: z.number(),
+  max: z.number(),
+  sum: z.number(),
+  count: z.number(),
+});
+
+const RollupHistorySchema = z.record(z.string(), z.record(z.string(), z.array(RollupBucketSchema)));
+
+const StoreStateSchema = z.object({
+  // `key` is missing from snapshots that kept the node key in `ip`
+  nodes: z.array(z.looseObject({
+    id: z.string(),
+    key: z.string().optional(),
+    ip: z.string(),
+    address: z.string(),
+    status: z.enum(["online", "offline", "unknown", "degraded"]),
+    lastSeen: Timestamp.nullable(),
+    firstSeen: Timestamp.nullable(),
+    lastRestartAt: Timestamp.nullable().optional(),
+    lastSeenTimestamp: z.number().nullable().optional(),
+    reportedBy: z.array(z.string()).optional(),
+    probeOutcomes: z.array(z.looseObject({ type: z.string(), timestamp: Timestamp })).optional(),
+  })),
+  history: z.array(z.object({
+    key: z.string().optional(),
+    ip: z.string().optional(),
+    recent: z.array(ActivityPointSchema),
+    hourly: z.array(ActivityPointSchema),
+  }).refine(h => h.key !== undefined || h.ip !== undefined, { message: "key is required" })),
+  events: z.array(z.looseObject({
+    id: z.number(),
+    type: z.string(),
+    key: z.string().optional(),
+    ip: z.string(),
+    timestamp: Timestamp,
+  })).optional(),
+  operators: z.array(z.object({
+    pubkey: z.string(),
+    firstSeen: Timestamp,
+    lastSeen: Timestamp,
+    addresses: z.array(z.looseObject({
+      key: z.string().optional(),
+      ip: z.string(),
+      address: z.string(),
+      firstSeen: Timestamp,
+      lastSeen: Timestamp,
+    })),
+  })).optional(),
+  identityConflicts: z.array(z.looseObject({
+    type: z.string(),
+    pubkey: z.string(),
+    ips: z.array(z.string()),
+    previousPubkey: z.string().nullable(),
+    firstDetected: Timestamp,
+    lastDetected: Timestamp,
+    occurrences: z.number(),
+  })).optional(),
+  lastSync: Timestamp.nullable(),
+  syncCount: z.number(),
+});
+
+const PersistedSnapshotSchema = z.object({
+  version: z.number(),
+  savedAt: Timestamp,
+  store: StoreStateSchema,
+  geoCache: z.array(z.tuple([
+    z.string(),
+    z.union([
+      z.looseObject({
+        geo: GeoLocationSchema.nullable(),
+        cachedAt: z.number(),
+        expiresAt: z.number(),
+        failures: z.number(),
+      }),
+      GeoLocationSchema,
+      z.null(),
+    ]),
+  ])),
+  metrics: RollupHistorySchema.optional(),
+  availability: z.array(z.tuple([
+    z.string(),
+    z.array(z.object({ start: z.number(), end: z.number(), up: z.boolean() })),
+  ])).optional(),
+  latency: z.array(z.tuple([z.string(), z.array(z.number())])).optional(),
+  counters: z.array(z.tuple([
+    z.string(),
+    z.object({
+      timestamp: z.number(),
+      packetsSent: z.number(),
+      packetsReceived: z.number(),
+      totalBytes: z.number(),
+      uptime: z.number(),
+    }),
+  ])).optional(),
+  decentralization: RollupHistorySchema.optional(),
+});
+
+/**
+ * Check a snapshot's shape before any live state is replaced
+ */
+export function validateSnapshot(input: unknown): PersistedSnapshot {
+  const parsed = PersistedSnapshotSchema.safeParse(input);
+  
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid snapshot: ${issues}`);
+  }
+  
+  return input as PersistedSnapshot;
+}
+
+/**
+ * A storage backend for persisted snapshots
+ */
+export interface PersistenceAdapter {
+  name: string;
+  load(): Promise<PersistedSnapshot | null>;
+  save(snapshot: PersistedSnapshot): Promise<void>;
+}
+
+// ============================================
+// Adapters
+// ============================================
+
+/**
+ * Serialize a snapshot as JSON text in pieces: arrays (and the store's arrays)
+ * are stringified one item at a time so no single call blocks on the whole state
+ */
+function* snapshotJsonChunks(value: unknown, depth = 0): Generator<string> {
+  if (Array.isArray(value)) {
+    yield "[";
+    for (const [index, item] of value.entries()) {
+      if (index > 0) yield ",";
+      yield JSON.stringify(item) ?? "null";
+    }
+    yield "]";
+  } else if (value !== null && typeof value === "object" && depth < 2) {
+    yield "{";
+    let first = true;
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      yield `${first ? "" : ","}${JSON.stringify(key)}:`;
+      yield* snapshotJsonChunks(item, depth + 1);
+      first = false;
+    }
+    yield "}";
+  } else {
+    yield JSON.stringify(value) ?? "null";
+  }
+}
+
+/**
+ * JSON file adapter (atomic write via temp file + rename)
+ * The file is written in chunks, yielding to the event loop between them
+ */
+export function createFileAdapter(filePath: string): PersistenceAdapter {
+  return {
+    name: `file:${filePath}`,
+    
+    async load() {
+      try {
+        const raw = await fs.readFile(filePath, "utf8");
+        return JSON.parse(raw) as PersistedSnapshot;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+    
+    async save(snapshot) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      const handle = await fs.open(tmpPath, "w");
+      try {
+        let buffer = "";
+        for (const chunk of snapshotJsonChunks(snapshot)) {
+          buffer += chunk;
+          if (buffer.length >= WRITE_CHUNK_SIZE) {
+            await handle.write(buffer);
+            buffer = "";
+          }
+        }
+        await handle.write(buffer);
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(tmpPath, filePath);
+    },
+  };
+}
+
+/**
+ * No-op adapter (persistence disabled)
+ */
+export function createNoopAdapter(): PersistenceAdapter {
+  return {
+    name: "none",
+    async load() {
+      return null;
+    },
+    async save() {},
+  };
+}
+
+function createDefaultAdapter(): PersistenceAdapter {
+  switch (PERSISTENCE_DRIVER) {
+    case "none":
+      return createNoopAdapter();
+    case "file":
+      return createFileAdapter(path.join(DATA_DIR, "store.json"));
+    default:
+      logger.warn(`Unknown PERSISTENCE_DRIVER "${PERSISTENCE_DRIVER}", using file`);
+      return createFileAdapter(path.join(DATA_DIR, "store.json"));
+  }
+}
+
+let adapter: PersistenceAdapter = createDefaultAdapter();
+let pendingFlush: Promise<void> = Promise.resolve();
+let lastFlushAt = 0;
+
+/**
+ * Swap the persistence backend
+ */
+export function setPersistenceAdapter(next: PersistenceAdapter): void {
+  adapter = next;
+}
+
+export function getPersistenceAdapter(): PersistenceAdapter {
+  return adapter;
+}
+
+// ============================================
+// Snapshot Lifecycle
+// ============================================
+
+/**
+ * Build a snapshot of the current store, geo cache and derived histories
+ */
+export function buildSnapshot(): PersistedSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: new Date().toISOString(),
+    store: store.exportStoreState(),
+    geoCache: exportGeoCache(),
+    metrics: exportMetricHistory(),
+    availability: exportAvailability(),
+    latency: exportLatency(),
+    counters: exportCounterSamples(),
+    decentralization: exportDecentralizationHistory(),
+  };
+}
+
+/**
+ * Load a snapshot into the store, geo cache and derived histories
+ * The whole snapshot is validated first; sections it leaves out are reset rather than kept
+ */
+export function applySnapshot(input: PersistedSnapshot): void {
+  const snapshot = validateSnapshot(input);
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+  }
+  
+  store.importStoreState(snapshot.store);
+  importGeoCache(snapshot.geoCache);
+  
+  if (snapshot.metrics) {
+    importMetricHistory(snapshot.metrics);
+  } else {
+    clearMetricHistory();
+  }
+  if (snapshot.availability) {
+    importAvailability(snapshot.availability);
+  } else {
+    clearAvailability();
+  }
+  if (snapshot.latency) {
+    importLatency(snapshot.latency);
+  } else {
+    clearLatency();
+  }
+  if (snapshot.counters) {
+    importCounterSamples(snapshot.counters);
+  } else {
+    clearCounterSamples();
+  }
+  if (snapshot.decentralization) {
+    importDecentralizationHistory(snapshot.decentralization);
+  } else {
+    clearDecentralizationHistory();
+  }
+  
+  // Snapshots from before nodes were keyed by gossip address
+  const renamed = store.migrateNodeKeys();
+  rekeyAvailability(renamed);
+  rekeyLatency(renamed);
+  rekeyCounterSamples(renamed);
+  
+  verifyNodeIds(snapshot);
+}
+
+/**
+ * Node ids are part of URLs: every id the snapshot carried must come back unchanged
+ */
+function verifyNodeIds(snapshot: PersistedSnapshot): void {
+  const restored = new Set(store.getAllNodes().map(node => node.id));
+  const changed = snapshot.store.nodes
+    .map(node => node.id)
+    .filter(id => !id.includes(":") && !restored.has(id));
+  
+  if (changed.length > 0) {
+    logger.error(`${changed.length} node ids did not survive the restore`, { ids: changed.slice(0, 10) });
+  }
+}
+
+/**
+ * Rehydrate store from the persistence backend (call before starting sync)
+ */
+export async function restorePersistedState(): Promise<boolean> {
+  try {
+    const snapshot = await adapter.load();
+    if (!snapshot) {
+      logger.info(`No persisted state found (${adapter.name})`);
+      return false;
+    }
+    
+    applySnapshot(snapshot);
+    logger.info(`Restored persisted state (${adapter.name})`, {
+      nodes: store.getStoreSize(),
+      savedAt: snapshot.savedAt,
+    });
+    return true;
+  } catch (error) {
+    logger.error("Failed to restore persisted state", { error: (error as Error).message });
+    return false;
+  }
+}
+
+/**
+ * Write current state to the persistence backend
+ * Flushes are serialized so overlapping calls never interleave writes
+ */
+export function flushPersistedState(): Promise<void> {
+  pendingFlush = pendingFlush.then(async () => {
+    try {
+      const startTime = Date.now();
+      await adapter.save(buildSnapshot());
+      lastFlushAt = Date.now();
+      logger.debug(`Persisted state (${adapter.name})`, { durationMs: Date.now() - startTime });
+    } catch (error) {
+      logger.error("Failed to persist state", { error: (error as Error).message });
+    }
+  });
+  
+  return pendingFlush;
+}
+
+/**
+ * Flush after a successful sync, at most once per PERSIST_MIN_INTERVAL_MS
+ * Runs in the background; shutdown and snapshot imports flush unconditionally
+ */
+export function persistAfterSync(): void {
+  if (Date.now() - lastFlushAt < PERSIST_MIN_INTERVAL_MS) return;
+  
+  lastFlushAt = Date.now();
+  void flushPersistedState();
+}
@@ -0,0 +1,219 @@
+/**
+ * Xandeum Explorer - Sync Progress
+ * Live phase/progress reporting for the running sync and a bounded history of finished runs
+ */
+
+import logger from "../lib/logger";
+import type { SyncPhase, SyncPhaseStep, SyncProgress, SyncRun } from "../types";
+
+// Configuration
+const SYNC_RUN_HISTORY = parseInt(process.env.SYNC_RUN_HISTORY || "50", 10);
+// Minimum gap between progress notifications within a phase
+const NOTIFY_INTERVAL_MS = 250;
+
+export const SYNC_PHASES: SyncPhase[] = ["fetch_pods", "geo", "probe", "crawl", "update", "cleanup"];
+
+interface ActiveRun {
+  id: number;
+  startedAt: number;
+  phase: SyncPhase;
+  phaseStartedAt: number;
+  done: number;
+  total: number;
+  phaseDurations: Partial<Record<SyncPhase, number>>;
+  phaseSteps: SyncPhaseStep[];
+}
+
+type SyncProgressListener = (progress: SyncProgress | null, run?: SyncRun) => void;
+
+let active: ActiveRun | null = null;
+let nextRunId = 1;
+let lastNotifiedAt = 0;
+const runs: SyncRun[] = [];
+const listeners = new Set<SyncProgressListener>();
+
+// ============================================
+// Reporting (called by the sync engine)
+// ============================================
+
+function notify(run?: SyncRun): void {
+  lastNotifiedAt = Date.now();
+  const progress = getSyncProgress();
+  listeners.forEach(listener => {
+    try {
+      listener(progress, run);
+    } catch (error) {
+      logger.error("Sync progress listener failed", { error: (error as Error).message });
+    }
+  });
+}
+
+function closePhase(now: number): void {
+  if (!active) return;
+  const durationMs = now - active.phaseStartedAt;
+  active.phaseDurations[active.phase] = (active.phaseDurations[active.phase] || 0) + durationMs;
+  active.phaseSteps.push({ phase: active.phase, durationMs });
+}
+
+/**
+ * Begin tracking a new sync run
+ */
+export function startSyncRun(): number {
+  const now = Date.now();
+  active = {
+    id: nextRunId++,
+    startedAt: now,
+    phase: "fetch_pods",
+    phaseStartedAt: now,
+    done: 0,
+    total: 0,
+    phaseDurations: {},
+    phaseSteps: [],
+  };
+  notify();
+  return active.id;
+}
+
+/**
+ * Move the running sync into a phase with a known amount of work
+ */
+export function enterSyncPhase(phase: SyncPhase, total: number = 0): void {
+  if (!active) return;
+  const now = Date.now();
+  
+  closePhase(now);
+  active.phase = phase;
+  active.phaseStartedAt = now;
+  active.done = 0;
+  active.total = total;
+  notify();
+}
+
+/**
+ * Report progress within the current phase
+ */
+export function advanceSyncPhase(done: number, total?: number): void {
+  if (!active) return;
+  
+  active.done = done;
+  if (total !== undefined) active.total = total;
+  
+  if (done >= active.total || Date.now() - lastNotifiedAt >= NOTIFY_INTERVAL_MS) {
+    notify();
+  }
+}
+
+/**
+ * Finish the running sync and add it to the run history
+ */
+export function finishSyncRun(result: {
+  success: boolean;
+  error?: string | null;
+  totalPods: number;
+  uniqueNodes: number;
+  onlineCount: number;
+  offlineCount: number;
+}): SyncRun | null {
+  if (!active) return null;
+  const now = Date.now();
+  closePhase(now);
+  
+  const run: SyncRun = {
+    id: active.id,
+    startedAt: new Date(active.startedAt),
+    finishedAt: new Date(now),
+    durationMs: now - active.startedAt,
+    success: result.success,
+    error: result.error ?? null,
+    phaseDurations: active.phaseDurations,
+    phaseSteps: active.phaseSteps,
+    totalPods: result.totalPods,
+    uniqueNodes: result.uniqueNodes,
+    onlineCount: result.onlineCount,
+    offlineCount: result.offlineCount,
+  };
+  
+  runs.push(run);
+  if (runs.length > SYNC_RUN_HISTORY) {
+    runs.splice(0, runs.length - SYNC_RUN_HISTORY);
+  }
+  
+  active = null;
+  notify(run);
+  return run;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Estimate time left: the current phase from its own rate (or the last run's duration),
+ * plus the phases the last successful run went through after it
+ * A phase can repeat (the crawl path goes probe -> crawl -> probe), so the current step is
+ * matched to the same visit of that phase in the last run
+ */
+function estimateRemaining(run: ActiveRun, now: number): number | null {
+  const previous = [...runs].reverse().find(r => r.success);
+  const phaseElapsed = now - run.phaseStartedAt;
+  
+  const visit = run.phaseSteps.filter(step => step.phase === run.phase).length;
+  const steps = previous?.phaseSteps ?? [];
+  let seen = 0;
+  const matched = steps.findIndex(step => step.phase === run.phase && seen++ === visit);
+  
+  let currentRemaining: number | null = null;
+  if (run.done > 0 && run.total > 0) {
+    currentRemaining = (phaseElapsed / run.done) * (run.total - run.done);
+  } else if (matched !== -1) {
+    currentRemaining = Math.max(0, steps[matched].durationMs - phaseElapsed);
+  } else if (previous?.phaseDurations[run.phase] !== undefined) {
+    currentRemaining = Math.max(0, previous.phaseDurations[run.phase]! - phaseElapsed);
+  }
+  
+  if (currentRemaining === null) return null;
+  
+  // The last run took a different path: fall back to the phases not yet visited
+  const laterRemaining = matched !== -1
+    ? steps.slice(matched + 1).reduce((sum, step) => sum + step.durationMs, 0)
+    : SYNC_PHASES.slice(SYNC_PHASES.indexOf(run.phase) + 1)
+      .filter(phase => !run.phaseSteps.some(step => step.phase === phase))
+      .reduce((sum, phase) => sum + (previous?.phaseDurations[phase] || 0), 0);
+  
+  return Math.round(currentRemaining + laterRemaining);
+}
+
+/**
+ * Get progress of the running sync (null when idle)
+ */
+export function getSyncProgress(): SyncProgress | null {
+  if (!active) return null;
+  const now = Date.now();
+  
+  return {
+    runId: active.id,
+    phase: active.phase,
+    done: active.done,
+    total: active.total,
+    startedAt: new Date(active.startedAt),
+    elapsedMs: now - active.startedAt,
+    phaseElapsedMs: now - active.phaseStartedAt,
+    etaMs: estimateRemaining(active, now),
+    phaseDurations: { ...active.phaseDurations },
+  };
+}
+
+/**
+ * Get finished runs, newest first
+ */
+export function getSyncRuns(limit: number = SYNC_RUN_HISTORY): SyncRun[] {
+  return runs.slice(-limit).reverse();
+}
+
+/**
+ * Subscribe to progress updates (run is set when a sync finishes); returns an unsubscribe function
+ */
+export function onSyncProgress(listener: SyncProgressListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
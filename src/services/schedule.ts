@@ -0,0 +1,114 @@
+/**
+ * Xandeum Explorer - Probe Scheduler
+ * Per-node next-probe times with exponential backoff for failing nodes
+ */
+
+import type { NodeStats } from "../types";
+
+// Configuration
+const PROBE_BASE_INTERVAL_MS = parseInt(
+  process.env.PROBE_BASE_INTERVAL_MS || process.env.SYNC_INTERVAL_MS || "60000", 
+  10
+);
+const PROBE_MAX_INTERVAL_MS = parseInt(process.env.PROBE_MAX_INTERVAL_MS || "1800000", 10); // 30 minutes
+const PROBE_BACKOFF_FACTOR = parseFloat(process.env.PROBE_BACKOFF_FACTOR || "2");
+// Sync ticks drift by a few ms; anything due within this window is probed now
+const DUE_SLACK_MS = 1000;
+
+export interface ProbeScheduleEntry {
+  key: string; // Node key
+  nextProbeAt: number; // epoch ms
+  intervalMs: number;
+  consecutiveFailures: number;
+  lastProbeAt: number | null;
+  lastOutcome: "up" | "down" | null;
+}
+
+const schedule = new Map<string, ProbeScheduleEntry>();
+
+// ============================================
+// Scheduling
+// ============================================
+
+/**
+ * Pick the IPs whose probe is due (nodes never probed are always due)
+ */
+export function getDueIps(ips: string[], now: number = Date.now()): string[] {
+  return ips.filter(ip => {
+    const entry = schedule.get(ip);
+    return !entry || entry.nextProbeAt - now <= DUE_SLACK_MS;
+  });
+}
+
+/**
+ * Interval the node was last scheduled with (base interval if unknown)
+ */
+export function getProbeInterval(ip: string): number {
+  return schedule.get(ip)?.intervalMs ?? PROBE_BASE_INTERVAL_MS;
+}
+
+/**
+ * Reschedule probed nodes: healthy ones at the base interval, failing ones backed off
+ */
+export function recordProbeResults(results: Map<string, NodeStats | null>, now: number = Date.now()): void {
+  results.forEach((stats, key) => {
+    const up = stats !== null && stats !== undefined;
+    const failures = up ? 0 : (schedule.get(key)?.consecutiveFailures || 0) + 1;
+    const intervalMs = Math.min(
+      PROBE_BASE_INTERVAL_MS * Math.pow(PROBE_BACKOFF_FACTOR, failures),
+      PROBE_MAX_INTERVAL_MS
+    );
+    
+    schedule.set(key, {
+      key,
+      nextProbeAt: now + intervalMs,
+      intervalMs,
+      consecutiveFailures: failures,
+      lastProbeAt: now,
+      lastOutcome: up ? "up" : "down",
+    });
+  });
+}
+
+/**
+ * Drop the backoff of nodes that are back in gossip after an absence, so they are due right away
+ */
+export function resetProbeSchedule(ips: string[]): void {
+  ips.forEach(ip => schedule.delete(ip));
+}
+
+/**
+ * Forget nodes that are no longer tracked
+ */
+export function pruneSchedule(isTracked: (ip: string) => boolean): void {
+  for (const ip of schedule.keys()) {
+    if (!isTracked(ip)) schedule.delete(ip);
+  }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Get the probe queue, soonest first
+ */
+export function getProbeSchedule(): ProbeScheduleEntry[] {
+  return Array.from(schedule.values()).sort((a, b) => a.nextProbeAt - b.nextProbeAt);
+}
+
+export function getScheduleConfig(): {
+  baseIntervalMs: number;
+  maxIntervalMs: number;
+  backoffFactor: number;
+} {
+  return {
+    baseIntervalMs: PROBE_BASE_INTERVAL_MS,
+    maxIntervalMs: PROBE_MAX_INTERVAL_MS,
+    backoffFactor: PROBE_BACKOFF_FACTOR,
+  };
+}
+
+export function clearSchedule(): void {
+  schedule.clear();
+}
@@ -0,0 +1,123 @@
+/**
+ * Xandeum Explorer - Snapshot Export/Import
+ * Versioned JSON and NDJSON captures of the full explorer state
+ */
+
+import { buildSnapshot, applySnapshot, type PersistedSnapshot } from "./persistence";
+
+export type SnapshotFormat = "json" | "ndjson";
+
+export const SNAPSHOT_FORMATS: SnapshotFormat[] = ["json", "ndjson"];
+
+/**
+ * One NDJSON line. Arrays are split into one record per item so large
+ * snapshots can be streamed; everything else is written as a single value.
+ */
+type NdjsonRecord =
+  | { type: "header"; version: number; savedAt: string }
+  | { type: "item"; section: string; key: string; item: unknown }
+  | { type: "value"; section: string; key: string; value: unknown };
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Capture the current state (nodes, sync metadata, geo cache, histories)
+ */
+export function exportSnapshot(): PersistedSnapshot {
+  return buildSnapshot();
+}
+
+function* sectionRecords(section: string, data: object): Generator<NdjsonRecord> {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        yield { type: "item", section, key, item };
+      }
+    } else {
+      yield { type: "value", section, key, value };
+    }
+  }
+}
+
+/**
+ * Serialize a snapshot as NDJSON lines (header first)
+ */
+export function* snapshotToNdjson(snapshot: PersistedSnapshot): Generator<string> {
+  const { version, savedAt, store, ...rest } = snapshot;
+  
+  yield JSON.stringify({ type: "header", version, savedAt }) + "\n";
+  
+  for (const record of sectionRecords("store", store)) {
+    yield JSON.stringify(record) + "\n";
+  }
+  for (const record of sectionRecords("root", rest)) {
+    yield JSON.stringify(record) + "\n";
+  }
+}
+
+// ============================================
+// Import
+// ============================================
+
+/**
+ * Rebuild a snapshot from NDJSON text
+ */
+export function parseNdjsonSnapshot(text: string): PersistedSnapshot {
+  const sections: Record<string, Record<string, unknown>> = { store: {}, root: {} };
+  let header: { version: number; savedAt: string } | null = null;
+  
+  const lines = text.split("\n").filter(line => line.trim().length > 0);
+  
+  for (const [index, line] of lines.entries()) {
+    let record: NdjsonRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid NDJSON on line ${index + 1}`);
+    }
+    
+    if (record.type === "header") {
+      header = { version: record.version, savedAt: record.savedAt };
+      continue;
+    }
+    
+    const section = sections[record.section];
+    if (!section) {
+      throw new Error(`Unknown snapshot section "${record.section}" on line ${index + 1}`);
+    }
+    
+    if (record.type === "item") {
+      const list = (section[record.key] as unknown[] | undefined) || [];
+      list.push(record.item);
+      section[record.key] = list;
+    } else {
+      section[record.key] = record.value;
+    }
+  }
+  
+  if (!header) {
+    throw new Error("Snapshot header missing");
+  }
+  const { version, savedAt } = header;
+  
+  // Sections may omit empty arrays, so make sure the required ones exist
+  const store = { nodes: [], history: [], lastSync: null, syncCount: 0, ...sections.store };
+  const root = { geoCache: [], ...sections.root };
+  
+  return { version, savedAt, store, ...root } as PersistedSnapshot;
+}
+
+/**
+ * Replace the current state with a snapshot (JSON object or NDJSON text)
+ */
+export function importSnapshot(input: PersistedSnapshot | string): PersistedSnapshot {
+  const snapshot = typeof input === "string" ? parseNdjsonSnapshot(input) : input;
+  
+  // Validated as a whole before anything is replaced
+  applySnapshot(snapshot);
+  return snapshot;
+}
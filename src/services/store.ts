@@ -15,7 +15,23 @@ import type {
   NetworkTraffic,
   DistributionData,
   NodeSearchFilter,
-  MapMarker
+  MapMarker,
+  NodeActivityPoint,
+  HistoryWindow,
+  TrafficRates,
+  ProbeLatency,
+  ProbeOutcome,
+  ProbeOutcomeType,
+  ProbeOutcomeSummary,
+  ProviderDistribution,
+  ProviderShare,
+  NodeEvent,
+  NodeEventType,
+  NodeEventFilter,
+  Operator,
+  OperatorAddress,
+  IdentityConflict,
+  IdentityConflictType
 } from "../types";
 import { calculateDerivedMetrics, getHealthGrade } from "../lib/health";
 import { 
@@ -27,7 +43,9 @@ import {
   formatLocation,
   generateNodeId,
   extractIp,
-  extractPort
+  extractPort,
+  normalizeIp,
+  normalizeNodeKey
 } from "../lib/format";
 import logger from "../lib/logger";
 
@@ -35,8 +53,45 @@ import logger from "../lib/logger";
 // Store State
 // ============================================
 
+// Activity history retention (per node)
+const HISTORY_RECENT_MAX_POINTS = parseInt(process.env.NODE_HISTORY_RECENT_POINTS || "1440", 10); // ~24h at 60s sync
+const HISTORY_HOURLY_MAX_POINTS = parseInt(process.env.NODE_HISTORY_HOURLY_POINTS || "720", 10); // 30 days
+
+// Lifecycle event log retention
+const EVENT_LOG_MAX = parseInt(process.env.EVENT_LOG_MAX || "5000", 10);
+const IDENTITY_CONFLICTS_MAX = 1000;
+
+// Probe outcomes kept on each node
+const PROBE_OUTCOME_HISTORY = parseInt(process.env.PROBE_OUTCOME_HISTORY || "10", 10);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const HISTORY_WINDOWS_MS: Record<HistoryWindow, number> = {
+  "24h": 24 * HOUR_MS,
+  "7d": 7 * 24 * HOUR_MS,
+  "30d": 30 * 24 * HOUR_MS,
+};
+
+interface NodeHistory {
+  recent: NodeActivityPoint[]; // One point per sync
+  hourly: NodeActivityPoint[]; // First point of each hour
+}
+
+interface OperatorRecord {
+  pubkey: string;
+  firstSeen: Date;
+  lastSeen: Date;
+  addresses: Map<string, Omit<OperatorAddress, "active">>; // Keyed by IP
+}
+
 interface StoreState {
   nodes: Map<string, XandeumNode>;
+  history: Map<string, NodeHistory>;
+  operators: Map<string, OperatorRecord>; // Keyed by pubkey
+  identityConflicts: Map<string, IdentityConflict>;
+  absentFromGossip: Set<string>; // Node keys missing from the last sync's gossip
+  events: NodeEvent[];
+  nextEventId: number;
   lastSync: Date | null;
   syncStatus: "syncing" | "idle" | "error";
   syncCount: number;
@@ -45,12 +100,125 @@ interface StoreState {
 
 const state: StoreState = {
   nodes: new Map(),
+  history: new Map(),
+  operators: new Map(),
+  identityConflicts: new Map(),
+  absentFromGossip: new Set(),
+  events: [],
+  nextEventId: 1,
   lastSync: null,
   syncStatus: "idle",
   syncCount: 0,
   startTime: new Date(),
 };
 
+// ============================================
+// Lifecycle Events
+// ============================================
+
+type NodeEventListener = (event: NodeEvent) => void;
+
+const eventListeners = new Set<NodeEventListener>();
+
+/**
+ * Subscribe to node lifecycle events; returns an unsubscribe function
+ */
+export function onNodeEvent(listener: NodeEventListener): () => void {
+  eventListeners.add(listener);
+  return () => eventListeners.delete(listener);
+}
+
+/**
+ * Append an event to the log and notify subscribers
+ */
+function emitNodeEvent(
+  type: NodeEventType,
+  node: Pick<XandeumNode, "key" | "ip" | "pubkey">,
+  message: string,
+  from: string | null = null,
+  to: string | null = null
+): void {
+  const event: NodeEvent = {
+    id: state.nextEventId++,
+    type,
+    key: node.key,
+    ip: node.ip,
+    pubkey: node.pubkey,
+    timestamp: new Date(),
+    from,
+    to,
+    message,
+  };
+  
+  pushBounded(state.events, event, EVENT_LOG_MAX);
+  
+  eventListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error("Node event listener failed", { error: (error as Error).message });
+    }
+  });
+}
+
+/**
+ * Emit events for the differences between the previous and updated node
+ */
+function emitTransitionEvents(
+  existing: XandeumNode | undefined,
+  node: XandeumNode,
+  restarted: boolean
+): void {
+  if (!existing) {
+    emitNodeEvent("node_joined", node, `Node ${node.key} joined the network`, null, node.status);
+    return;
+  }
+  
+  // unknown -> offline is a first failed probe, not an outage: only nodes that were up go offline
+  if (node.status === "offline" && (existing.status === "online" || existing.status === "degraded")) {
+    const lastOutcome = node.probeOutcomes[node.probeOutcomes.length - 1];
+    const reason = lastOutcome && lastOutcome.type !== "ok" ? ` (${lastOutcome.type})` : "";
+    emitNodeEvent("node_offline", node, `Node ${node.key} went offline${reason}`, existing.status, node.status);
+  } else if (node.status === "online" && (existing.status === "offline" || existing.status === "unknown")) {
+    emitNodeEvent("node_recovered", node, `Node ${node.key} is back online`, existing.status, node.status);
+  }
+  
+  if (existing.version && node.version && existing.version !== node.version) {
+    emitNodeEvent("version_changed", node, `Node ${node.key} changed version`, existing.version, node.version);
+  }
+  
+  if (existing.pubkey && node.pubkey && existing.pubkey !== node.pubkey) {
+    emitNodeEvent("pubkey_changed", node, `Node ${node.key} changed pubkey`, existing.pubkey, node.pubkey);
+  }
+  
+  if (restarted) {
+    emitNodeEvent("restarted", node, `Node ${node.key} restarted`);
+  }
+}
+
+/**
+ * Query the event log (newest first)
+ */
+export function getEvents(filter: NodeEventFilter = {}): NodeEvent[] {
+  const results: NodeEvent[] = [];
+  const limit = filter.limit ?? 100;
+  
+  for (let i = state.events.length - 1; i >= 0 && results.length < limit; i--) {
+    const event = state.events[i];
+    const ts = event.timestamp.getTime();
+    
+    if (filter.types && !filter.types.includes(event.type)) continue;
+    if (filter.key && event.key !== filter.key) continue;
+    if (filter.pubkey && event.pubkey !== filter.pubkey) continue;
+    if (filter.since !== undefined && ts < filter.since) continue;
+    if (filter.until !== undefined && ts > filter.until) continue;
+    
+    results.push(event);
+  }
+  
+  return results;
+}
+
 // ============================================
 // Node CRUD Operations
 // ============================================
@@ -59,7 +227,7 @@ const state: StoreState = {
  * Create or update a node in the store
  */
 export function upsertNode(
-  ip: string,
+  key: string,
   address: string,
   data: {
     version?: string | null;
@@ -68,9 +236,15 @@ export function upsertNode(
     stats?: NodeStats | null;
     geo?: GeoLocation | null;
     isOnline?: boolean;
+    reportedBy?: string[];
+    rates?: TrafficRates | null;
+    latency?: ProbeLatency | null;
+    probeOutcome?: ProbeOutcome;
+    rpcEndpoint?: string | null;
+    restarted?: boolean;
   }
 ): XandeumNode {
-  const existing = state.nodes.get(ip);
+  const existing = state.nodes.get(key);
   const now = new Date();
   
   // Determine status
@@ -89,7 +263,8 @@ export function upsertNode(
   }
   
   // Calculate derived metrics
-  const derived = calculateDerivedMetrics(data.stats || null, status);
+  const rates = hasStats ? data.rates ?? null : null;
+  const derived = calculateDerivedMetrics(data.stats || null, status, rates);
   
   // Build display values
   const display = data.stats ? {
@@ -105,9 +280,11 @@ export function upsertNode(
   } : null;
   
   const node: XandeumNode = {
-    id: generateNodeId(ip),
-    ip,
+    id: existing?.id ?? generateNodeId(key),
+    key,
+    ip: extractIp(address),
     address,
+    rpcEndpoint: data.rpcEndpoint || existing?.rpcEndpoint || null,
     pubkey: data.pubkey || existing?.pubkey || null,
     version: data.version || existing?.version || null,
     status,
@@ -117,21 +294,111 @@ export function upsertNode(
     lastSeenTimestamp: data.lastSeenTimestamp || existing?.lastSeenTimestamp || null,
     lastSeenAgo: formatTimeAgo(data.lastSeenTimestamp || existing?.lastSeenTimestamp || null),
     firstSeen: existing?.firstSeen || now,
+    reportedBy: data.reportedBy || existing?.reportedBy || [],
     stats: data.stats || existing?.stats || null,
     derived,
+    rates,
+    latency: data.latency !== undefined ? data.latency : existing?.latency ?? null,
+    probeOutcomes: appendProbeOutcome(existing?.probeOutcomes || [], data.probeOutcome),
+    restartCount: (existing?.restartCount || 0) + (data.restarted ? 1 : 0),
+    lastRestartAt: data.restarted ? now : existing?.lastRestartAt || null,
     geo: data.geo || existing?.geo || null,
     display,
   };
   
-  state.nodes.set(ip, node);
+  commitNode(existing, node, data.restarted === true, now);
   return node;
 }
 
+function appendProbeOutcome(outcomes: ProbeOutcome[], outcome: ProbeOutcome | undefined): ProbeOutcome[] {
+  if (!outcome) return outcomes;
+  const next = [...outcomes];
+  pushBounded(next, outcome, PROBE_OUTCOME_HISTORY);
+  return next;
+}
+
 /**
- * Get a node by IP
+ * Refresh gossip-reported fields for a node that was not probed this round
+ * Probe-derived state (status, stats, rates) is kept as it was
+ */
+export function refreshNodeGossip(
+  key: string,
+  address: string,
+  data: {
+    version?: string | null;
+    pubkey?: string | null;
+    lastSeenTimestamp?: number | null;
+    geo?: GeoLocation | null;
+    reportedBy?: string[];
+  }
+): XandeumNode | undefined {
+  const existing = state.nodes.get(key);
+  if (!existing) {
+    return undefined;
+  }
+  
+  const lastSeenTimestamp = data.lastSeenTimestamp || existing.lastSeenTimestamp;
+  const geo = data.geo || existing.geo;
+  
+  const node: XandeumNode = {
+    ...existing,
+    ip: extractIp(address),
+    address,
+    pubkey: data.pubkey || existing.pubkey,
+    version: data.version || existing.version,
+    lastSeenTimestamp,
+    lastSeenAgo: formatTimeAgo(lastSeenTimestamp),
+    reportedBy: data.reportedBy || existing.reportedBy,
+    geo,
+    display: existing.display && { ...existing.display, location: formatLocation(geo?.city, geo?.country) },
+  };
+  
+  commitNode(existing, node, false, new Date());
+  return node;
+}
+
+/**
+ * Store a rebuilt node and record its events and operator links
+ */
+function commitNode(existing: XandeumNode | undefined, node: XandeumNode, restarted: boolean, now: Date): void {
+  state.nodes.set(node.key, node);
+  emitTransitionEvents(existing, node, restarted);
+  
+  if (node.pubkey) {
+    linkOperatorAddress(node, now);
+  }
+  if (existing?.pubkey && node.pubkey && existing.pubkey !== node.pubkey) {
+    recordIdentityConflict("pubkey_reassigned", node.pubkey, [node.key], existing.pubkey);
+  }
+}
+
+/**
+ * Resolve a node key, another spelling of one, or a bare IP running exactly one pod
+ * to the key the node is stored under (unknown values come back normalized)
+ */
+export function resolveNodeKey(value: string): string {
+  if (state.nodes.has(value)) return value;
+  
+  const key = normalizeNodeKey(value);
+  if (state.nodes.has(key)) return key;
+  
+  const onHost = extractPort(value) === null ? findNodesByHost(key) : [];
+  return onHost.length === 1 ? onHost[0].key : key;
+}
+
+/**
+ * Get a node by key (IP:port), or by bare IP when only one pod runs there
  */
 export function getNode(ip: string): XandeumNode | undefined {
-  return state.nodes.get(ip);
+  return state.nodes.get(resolveNodeKey(ip));
+}
+
+/**
+ * Get every node hosted on an IP (several pods can share one)
+ */
+export function findNodesByHost(ip: string): XandeumNode[] {
+  const host = normalizeIp(ip);
+  return getAllNodes().filter(n => n.ip === host);
 }
 
 /**
@@ -154,6 +421,9 @@ export function getNodesByStatus(status: NodeStatus): XandeumNode[] {
 export function markNodeOffline(ip: string): void {
   const node = state.nodes.get(ip);
   if (node) {
+    if (node.status === "online" || node.status === "degraded") {
+      emitNodeEvent("node_offline", node, `Node ${ip} went offline`, node.status, "offline");
+    }
     node.status = "offline";
     node.isOnline = false;
     if (node.derived) {
@@ -165,17 +435,74 @@ export function markNodeOffline(ip: string): void {
 }
 
 /**
- * Mark nodes not in current sync as unknown
+ * Mark nodes not in current sync as unknown (and remember every absent node)
  */
 export function markAbsentNodesUnknown(currentIps: Set<string>): void {
+  state.absentFromGossip.clear();
   state.nodes.forEach((node, ip) => {
-    if (!currentIps.has(ip) && node.status === "online") {
+    if (currentIps.has(ip)) return;
+    
+    state.absentFromGossip.add(ip);
+    if (node.status === "online") {
+      emitNodeEvent("node_offline", node, `Node ${ip} disappeared from gossip`, node.status, "unknown");
       node.status = "unknown";
       state.nodes.set(ip, node);
     }
   });
 }
 
+/**
+ * Whether a node was missing from the last sync's gossip
+ */
+export function isAbsentFromGossip(ip: string): boolean {
+  return state.absentFromGossip.has(ip);
+}
+
+/**
+ * Re-key nodes stored under their bare IP (the key used before every node was keyed
+ * by its gossip address) along with their history, operator links and events
+ * Returns old key -> new key so services keeping their own per-node state can follow
+ */
+export function migrateNodeKeys(): Map<string, string> {
+  const renamed = new Map<string, string>();
+  
+  for (const [key, node] of Array.from(state.nodes.entries())) {
+    const canonical = normalizeNodeKey(node.address);
+    if (canonical === key || state.nodes.has(canonical)) continue;
+    
+    state.nodes.delete(key);
+    // The id was assigned when the node was first seen and does not follow the key
+    state.nodes.set(canonical, { ...node, key: canonical, ip: extractIp(node.address) });
+    
+    const history = state.history.get(key);
+    if (history) {
+      state.history.delete(key);
+      state.history.set(canonical, history);
+    }
+    renamed.set(key, canonical);
+  }
+  
+  if (renamed.size === 0) {
+    return renamed;
+  }
+  
+  state.operators.forEach(operator => {
+    for (const [key, address] of Array.from(operator.addresses.entries())) {
+      const canonical = renamed.get(key);
+      if (!canonical) continue;
+      operator.addresses.delete(key);
+      operator.addresses.set(canonical, { ...address, key: canonical, ip: extractIp(address.address) });
+    }
+  });
+  
+  state.events.forEach(event => {
+    event.key = renamed.get(event.key) ?? event.key;
+  });
+  
+  logger.info(`Re-keyed ${renamed.size} nodes to their gossip address`);
+  return renamed;
+}
+
 /**
  * Remove stale nodes older than specified days
  */
@@ -187,6 +514,8 @@ export function removeStaleNodes(days: number): number {
     const lastSeen = node.lastSeen?.getTime() || 0;
     if (lastSeen < threshold && node.status !== "online") {
       state.nodes.delete(ip);
+      state.history.delete(ip);
+      emitNodeEvent("removed", node, `Node ${ip} removed after ${days} days without contact`);
       removed++;
     }
   });
@@ -198,6 +527,226 @@ export function removeStaleNodes(days: number): number {
   return removed;
 }
 
+// ============================================
+// Operator Identity
+// ============================================
+
+/**
+ * Attach a node's address to the operator owning its pubkey
+ */
+function linkOperatorAddress(node: XandeumNode, now: Date): void {
+  const pubkey = node.pubkey!;
+  let operator = state.operators.get(pubkey);
+  if (!operator) {
+    operator = { pubkey, firstSeen: now, lastSeen: now, addresses: new Map() };
+    state.operators.set(pubkey, operator);
+  }
+  
+  operator.lastSeen = now;
+  
+  const existing = operator.addresses.get(node.key);
+  operator.addresses.set(node.key, {
+    key: node.key,
+    ip: node.ip,
+    address: node.address,
+    firstSeen: existing?.firstSeen || now,
+    lastSeen: now,
+  });
+}
+
+function conflictKey(c: Pick<IdentityConflict, "type" | "pubkey" | "previousPubkey" | "ips">): string {
+  return `${c.type}:${c.pubkey}:${c.previousPubkey || ""}:${c.ips.join(",")}`;
+}
+
+/**
+ * Record an identity conflict instead of discarding the conflicting data
+ * Repeated detections of the same conflict update the existing record
+ */
+export function recordIdentityConflict(
+  type: IdentityConflictType,
+  pubkey: string,
+  ips: string[],
+  previousPubkey: string | null = null
+): void {
+  const sortedIps = [...ips].sort();
+  const key = conflictKey({ type, pubkey, previousPubkey, ips: sortedIps });
+  const now = new Date();
+  const existing = state.identityConflicts.get(key);
+  
+  if (existing) {
+    existing.lastDetected = now;
+    existing.occurrences++;
+    return;
+  }
+  
+  state.identityConflicts.set(key, {
+    type,
+    pubkey,
+    ips: sortedIps,
+    previousPubkey,
+    firstDetected: now,
+    lastDetected: now,
+    occurrences: 1,
+  });
+  logger.debug(`Identity conflict (${type}) for ${pubkey}`, { ips: sortedIps, previousPubkey });
+  
+  // Drop the oldest conflicts past the limit (Map keeps insertion order)
+  while (state.identityConflicts.size > IDENTITY_CONFLICTS_MAX) {
+    const oldest = state.identityConflicts.keys().next().value as string;
+    state.identityConflicts.delete(oldest);
+  }
+}
+
+/**
+ * Get identity conflicts (most recently detected first)
+ */
+export function getIdentityConflicts(pubkey?: string): IdentityConflict[] {
+  return Array.from(state.identityConflicts.values())
+    .filter(c => !pubkey || c.pubkey === pubkey || c.previousPubkey === pubkey)
+    .sort((a, b) => b.lastDetected.getTime() - a.lastDetected.getTime());
+}
+
+const STATUS_RANK: Record<NodeStatus, number> = { online: 3, degraded: 2, unknown: 1, offline: 0 };
+
+function toOperator(record: OperatorRecord): Operator {
+  const addresses: OperatorAddress[] = Array.from(record.addresses.values())
+    .map(a => ({ ...a, active: state.nodes.get(a.key)?.pubkey === record.pubkey }))
+    .sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime());
+  
+  const activeKeys = addresses.filter(a => a.active).map(a => a.key);
+  const status = activeKeys
+    .map(key => state.nodes.get(key)!.status)
+    .reduce<NodeStatus>((best, s) => STATUS_RANK[s] > STATUS_RANK[best] ? s : best, "offline");
+  
+  return {
+    pubkey: record.pubkey,
+    firstSeen: record.firstSeen,
+    lastSeen: record.lastSeen,
+    status,
+    activeKeys,
+    addresses,
+    conflictCount: getIdentityConflicts(record.pubkey).length,
+  };
+}
+
+/**
+ * Get an operator by pubkey
+ */
+export function getOperator(pubkey: string): Operator | undefined {
+  const record = state.operators.get(pubkey);
+  return record ? toOperator(record) : undefined;
+}
+
+/**
+ * Get all operators
+ */
+export function getAllOperators(): Operator[] {
+  return Array.from(state.operators.values()).map(toOperator);
+}
+
+/**
+ * Get activity history across every address an operator has used
+ */
+export function getOperatorHistory(
+  pubkey: string,
+  window: HistoryWindow
+): { resolution: "sync" | "1h"; points: Array<NodeActivityPoint & { key: string; ip: string }> } {
+  const record = state.operators.get(pubkey);
+  const resolution = window === "24h" ? "sync" : "1h";
+  
+  if (!record) {
+    return { resolution, points: [] };
+  }
+  
+  // Only include points from while each address belonged to this operator
+  const points = Array.from(record.addresses.values())
+    .flatMap(a => {
+      const active = state.nodes.get(a.key)?.pubkey === pubkey;
+      return getNodeHistory(a.key, window).points
+        .filter(p => active || p.timestamp.getTime() <= a.lastSeen.getTime())
+        .map(p => ({ ...p, key: a.key, ip: a.ip }));
+    })
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  
+  return { resolution, points };
+}
+
+// ============================================
+// Activity History
+// ============================================
+
+/**
+ * Append a bounded item, dropping the oldest entries past the limit
+ */
+function pushBounded<T>(list: T[], item: T, max: number): void {
+  list.push(item);
+  if (list.length > max) {
+    list.splice(0, list.length - max);
+  }
+}
+
+/**
+ * Record one activity point for every tracked node (call once per sync)
+ */
+export function recordNodeActivity(): void {
+  const now = new Date();
+  
+  state.nodes.forEach((node, ip) => {
+    const point: NodeActivityPoint = {
+      timestamp: now,
+      status: node.status,
+      healthScore: node.derived?.healthScore || 0,
+      cpuPercent: node.stats?.cpu_percent || 0,
+      ramPercent: node.derived?.ramUsagePercent || 0,
+    };
+    
+    let history = state.history.get(ip);
+    if (!history) {
+      history = { recent: [], hourly: [] };
+      state.history.set(ip, history);
+    }
+    
+    pushBounded(history.recent, point, HISTORY_RECENT_MAX_POINTS);
+    
+    // Downsample: keep the first point seen in each hour
+    const lastHourly = history.hourly[history.hourly.length - 1];
+    if (!lastHourly || Math.floor(lastHourly.timestamp.getTime() / HOUR_MS) !== Math.floor(now.getTime() / HOUR_MS)) {
+      pushBounded(history.hourly, point, HISTORY_HOURLY_MAX_POINTS);
+    }
+  });
+}
+
+/**
+ * Check if a string is a supported history window
+ */
+export function isHistoryWindow(value: string): value is HistoryWindow {
+  return Object.hasOwn(HISTORY_WINDOWS_MS, value);
+}
+
+/**
+ * Get a node's activity points within a window
+ * 24h is served at sync resolution, longer windows from the hourly series
+ */
+export function getNodeHistory(
+  ip: string,
+  window: HistoryWindow
+): { resolution: "sync" | "1h"; points: NodeActivityPoint[] } {
+  const history = state.history.get(ip);
+  const resolution = window === "24h" ? "sync" : "1h";
+  
+  if (!history) {
+    return { resolution, points: [] };
+  }
+  
+  const since = Date.now() - HISTORY_WINDOWS_MS[window];
+  const series = resolution === "sync" ? history.recent : history.hourly;
+  
+  return {
+    resolution,
+    points: series.filter(p => p.timestamp.getTime() >= since),
+  };
+}
+
 // ============================================
 // Search & Filter
 // ============================================
@@ -271,6 +820,24 @@ export function searchNodes(filter: NodeSearchFilter): XandeumNode[] {
     results = results.filter(n => n.hasPublicRpc === filter.hasPublicRpc);
   }
   
+  if (filter.provider) {
+    // "AS24940" matches the number, anything else the organization name
+    const asnMatch = filter.provider.trim().match(/^AS(\d+)$/i);
+    const providerLower = filter.provider.toLowerCase();
+    results = results.filter(n => asnMatch
+      ? n.geo?.asn === parseInt(asnMatch[1], 10)
+      : n.geo?.org?.toLowerCase().includes(providerLower)
+    );
+  }
+  
+  if (filter.asn !== undefined) {
+    results = results.filter(n => n.geo?.asn === filter.asn);
+  }
+  
+  if (filter.hosting !== undefined) {
+    results = results.filter(n => n.geo?.hosting === filter.hosting);
+  }
+  
   return results;
 }
 
@@ -303,9 +870,11 @@ export function calculateNetworkStats(): NetworkStats {
   // Count unique countries and versions
   const countriesSet = new Set<string>();
   const versionsSet = new Set<string>();
+  const pubkeysSet = new Set<string>();
   nodes.forEach(n => {
     if (n.geo?.country) countriesSet.add(n.geo.country);
     if (n.version) versionsSet.add(n.version);
+    if (n.pubkey) pubkeysSet.add(n.pubkey);
   });
   
   const summary: NetworkSummary = {
@@ -318,6 +887,7 @@ export function calculateNetworkStats(): NetworkStats {
     networkScore,
     uniqueCountries: countriesSet.size,
     uniqueVersions: versionsSet.size,
+    uniqueOperators: pubkeysSet.size,
   };
   
   // Performance
@@ -369,6 +939,9 @@ export function calculateNetworkStats(): NetworkStats {
   const totalPacketsReceived = nodes.reduce((acc, n) => acc + (n.stats?.packets_received || 0), 0);
   const totalActiveStreams = nodes.reduce((acc, n) => acc + (n.stats?.active_streams || 0), 0);
   const totalUptime = nodesWithStats.reduce((acc, n) => acc + (n.stats?.uptime || 0), 0);
+  const nodesWithRates = nodesWithStats.filter(n => n.rates);
+  const currentPacketsPerSecond = nodesWithRates.reduce((acc, n) => acc + (n.rates?.packetsPerSecond || 0), 0);
+  const currentBytesPerSecond = nodesWithRates.reduce((acc, n) => acc + (n.rates?.bytesPerSecond || 0), 0);
   
   const traffic: NetworkTraffic = {
     totalPacketsSent,
@@ -377,6 +950,9 @@ export function calculateNetworkStats(): NetworkStats {
     avgPacketsPerSecond: totalUptime > 0 
       ? Math.round(((totalPacketsSent + totalPacketsReceived) / totalUptime) * 100) / 100
       : 0,
+    currentPacketsPerSecond: Math.round(currentPacketsPerSecond * 100) / 100,
+    currentBytesPerSecond: Math.round(currentBytesPerSecond * 100) / 100,
+    nodesWithRates: nodesWithRates.length,
     totalActiveStreams,
   };
   
@@ -453,6 +1029,7 @@ export function getMapMarkers(): MapMarker[] {
   return getAllNodes()
     .filter(n => n.geo?.latitude && n.geo?.longitude)
     .map(n => ({
+      key: n.key,
       ip: n.ip,
       lat: n.geo!.latitude,
       lng: n.geo!.longitude,
@@ -463,6 +1040,107 @@ export function getMapMarkers(): MapMarker[] {
     }));
 }
 
+/**
+ * Group nodes by the network (autonomous system) they run on, largest first
+ */
+export function getProviderDistribution(): ProviderDistribution {
+  const nodes = getAllNodes();
+  const groups = new Map<string, ProviderShare & { countrySet: Set<string> }>();
+  let hosting = 0;
+  let residential = 0;
+  let withAsn = 0;
+  
+  for (const node of nodes) {
+    const geo = node.geo;
+    if (geo?.asn !== undefined) withAsn++;
+    if (geo?.hosting === true) hosting++;
+    if (geo?.hosting === false) residential++;
+    
+    // Without an ASN, fall back to the organization name so known owners still group
+    const key = geo?.asn !== undefined ? `AS${geo.asn}` : (geo?.org || "unknown");
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        asn: geo?.asn ?? null,
+        org: geo?.org || "Unknown",
+        hosting: geo?.hosting ?? null,
+        nodes: 0,
+        online: 0,
+        percent: 0,
+        countries: [],
+        countrySet: new Set(),
+      };
+      groups.set(key, group);
+    }
+    
+    group.nodes++;
+    if (node.status === "online") group.online++;
+    if (geo?.country) group.countrySet.add(geo.country);
+    if (group.hosting === null && geo?.hosting !== undefined) group.hosting = geo.hosting;
+  }
+  
+  const percentOf = (count: number) =>
+    nodes.length > 0 ? Math.round((count / nodes.length) * 10000) / 100 : 0;
+  
+  const providers = Array.from(groups.values())
+    .map(({ countrySet, ...group }) => ({
+      ...group,
+      percent: percentOf(group.nodes),
+      countries: Array.from(countrySet).sort(),
+    }))
+    .sort((a, b) => b.nodes - a.nodes || a.org.localeCompare(b.org));
+  
+  const largest = providers.find(p => p.asn !== null || p.org !== "Unknown");
+  
+  return {
+    providers,
+    summary: {
+      totalNodes: nodes.length,
+      withAsn,
+      hosting,
+      residential,
+      unknownNetwork: nodes.length - hosting - residential,
+      largestProviderPercent: largest?.percent ?? 0,
+    },
+  };
+}
+
+export const PROBE_OUTCOME_TYPES: ProbeOutcomeType[] = [
+  "ok", "timeout", "refused", "unreachable", "invalid_schema", "rpc_error", "no_candidate",
+];
+
+/**
+ * Break down probe outcomes across the network
+ */
+export function getProbeOutcomeSummary(): ProbeOutcomeSummary {
+  const emptyCounts = () => 
+    Object.fromEntries(PROBE_OUTCOME_TYPES.map(t => [t, 0])) as Record<ProbeOutcomeType, number>;
+  
+  const latest = emptyCounts();
+  const recent = emptyCounts();
+  const nodesByOutcome = Object.fromEntries(
+    PROBE_OUTCOME_TYPES.map(t => [t, [] as string[]])
+  ) as Record<ProbeOutcomeType, string[]>;
+  const byCountry: Record<string, Partial<Record<ProbeOutcomeType, number>>> = {};
+  let probedNodes = 0;
+  
+  for (const node of state.nodes.values()) {
+    const last = node.probeOutcomes[node.probeOutcomes.length - 1];
+    if (!last) continue;
+    
+    probedNodes++;
+    latest[last.type]++;
+    nodesByOutcome[last.type].push(node.key);
+    node.probeOutcomes.forEach(o => recent[o.type]++);
+    
+    const country = node.geo?.country || "Unknown";
+    const counts = byCountry[country] || (byCountry[country] = {});
+    counts[last.type] = (counts[last.type] || 0) + 1;
+  }
+  
+  return { latest, recent, byCountry, nodesByOutcome, probedNodes };
+}
+
 // ============================================
 // Sync State Management
 // ============================================
@@ -493,11 +1171,145 @@ export function getStoreSize(): number {
   return state.nodes.size;
 }
 
+// ============================================
+// Serialization (Persistence)
+// ============================================
+
+type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K];
+};
+
+// Snapshots written before nodes carried a separate key stored it in `ip`
+type WithLegacyKey<T extends { key: string }> = Omit<T, "key"> & { key?: string };
+
+export interface SerializedStoreState {
+  nodes: WithLegacyKey<Serialized<XandeumNode>>[];
+  history: Array<{
+    key?: string;
+    ip?: string; // Legacy name of key
+    recent: Serialized<NodeActivityPoint>[];
+    hourly: Serialized<NodeActivityPoint>[];
+  }>;
+  events?: WithLegacyKey<Serialized<NodeEvent>>[];
+  operators?: Array<{
+    pubkey: string;
+    firstSeen: string;
+    lastSeen: string;
+    addresses: WithLegacyKey<Serialized<Omit<OperatorAddress, "active">>>[];
+  }>;
+  identityConflicts?: Serialized<IdentityConflict>[];
+  lastSync: string | null;
+  syncCount: number;
+}
+
+/**
+ * Ids are kept as restored; only the interim "node-<ip>:<port>" form is replaced by its URL-safe equivalent
+ */
+function normalizeNodeId(id: string, key: string): string {
+  return id.includes(":") ? generateNodeId(key) : id;
+}
+
+function reviveActivityPoint(point: Serialized<NodeActivityPoint>): NodeActivityPoint {
+  return { ...point, timestamp: new Date(point.timestamp) };
+}
+
+/**
+ * Export store state as plain JSON-safe data
+ */
+export function exportStoreState(): SerializedStoreState {
+  return JSON.parse(JSON.stringify({
+    nodes: getAllNodes(),
+    history: Array.from(state.history.entries()).map(([key, h]) => ({ key, ...h })),
+    events: state.events,
+    operators: Array.from(state.operators.values()).map(o => ({
+      ...o,
+      addresses: Array.from(o.addresses.values()),
+    })),
+    identityConflicts: Array.from(state.identityConflicts.values()),
+    lastSync: state.lastSync,
+    syncCount: state.syncCount,
+  }));
+}
+
+/**
+ * Replace store state with previously exported data
+ */
+export function importStoreState(data: SerializedStoreState): void {
+  state.nodes.clear();
+  state.history.clear();
+  state.absentFromGossip.clear();
+  
+  for (const n of data.nodes) {
+    const key = n.key ?? n.ip;
+    state.nodes.set(key, {
+      ...n,
+      id: normalizeNodeId(n.id, key),
+      key,
+      ip: extractIp(n.address),
+      lastSeen: n.lastSeen ? new Date(n.lastSeen) : null,
+      firstSeen: n.firstSeen ? new Date(n.firstSeen) : null,
+      lastRestartAt: n.lastRestartAt ? new Date(n.lastRestartAt) : null,
+      reportedBy: n.reportedBy ?? [],
+      rates: n.rates ?? null,
+      latency: n.latency ?? null,
+      rpcEndpoint: n.rpcEndpoint ?? null,
+      probeOutcomes: (n.probeOutcomes ?? []).map(o => ({ ...o, timestamp: new Date(o.timestamp) })),
+      restartCount: n.restartCount ?? 0,
+      lastSeenAgo: formatTimeAgo(n.lastSeenTimestamp),
+    });
+  }
+  
+  for (const h of data.history) {
+    state.history.set((h.key ?? h.ip)!, {
+      recent: h.recent.map(reviveActivityPoint),
+      hourly: h.hourly.map(reviveActivityPoint),
+    });
+  }
+  
+  state.events = (data.events || []).map(e => {
+    const key = e.key ?? e.ip;
+    return { ...e, key, ip: extractIp(key), timestamp: new Date(e.timestamp) };
+  });
+  state.nextEventId = state.events.reduce((max, e) => Math.max(max, e.id), 0) + 1;
+  
+  state.operators.clear();
+  for (const o of data.operators || []) {
+    state.operators.set(o.pubkey, {
+      pubkey: o.pubkey,
+      firstSeen: new Date(o.firstSeen),
+      lastSeen: new Date(o.lastSeen),
+      addresses: new Map(o.addresses.map(a => [a.key ?? a.ip, {
+        ...a,
+        key: a.key ?? a.ip,
+        ip: extractIp(a.address),
+        firstSeen: new Date(a.firstSeen),
+        lastSeen: new Date(a.lastSeen),
+      }])),
+    });
+  }
+  
+  state.identityConflicts.clear();
+  for (const c of data.identityConflicts || []) {
+    const conflict = { ...c, firstDetected: new Date(c.firstDetected), lastDetected: new Date(c.lastDetected) };
+    state.identityConflicts.set(conflictKey(conflict), conflict);
+  }
+  
+  state.lastSync = data.lastSync ? new Date(data.lastSync) : null;
+  state.syncCount = data.syncCount;
+  state.syncStatus = "idle";
+}
+
 /**
  * Clear all nodes (useful for testing)
  */
 export function clearStore(): void {
   state.nodes.clear();
+  state.history.clear();
+  state.events = [];
+  state.nextEventId = 1;
+  state.operators.clear();
+  state.identityConflicts.clear();
+  state.absentFromGossip.clear();
   state.lastSync = null;
   state.syncCount = 0;
   logger.info("Store cleared");
@@ -4,19 +4,26 @@
  */
 
 import logger from "../lib/logger";
-import { getPods, batchGetNodeStats } from "../lib/prpc";
+import { getPods, batchProbeNodes, type ProbeTarget } from "../lib/prpc";
 import { batchGetGeoLocation, getUncachedIps } from "../lib/geo";
-import { extractIp } from "../lib/format";
+import { extractIp, normalizeNodeKey } from "../lib/format";
 import * as store from "./store";
-import type { Pod } from "../types";
+import { persistAfterSync } from "./persistence";
+import { recordNetworkSnapshot } from "./metrics";
+import { recordDecentralization } from "./decentralization";
+import { recordProbeOutcomes, pruneAvailability } from "./availability";
+import { recordProbeLatencies, pruneLatency } from "./latency";
+import { recordCounterSample, pruneCounterSamples } from "./counters";
+import { crawlGossip, isCrawlEnabled } from "./crawler";
+import * as schedule from "./schedule";
+import * as progress from "./progress";
+import type { DiscoveredPod, TrafficRates, NodeProbe, NodeStats, ProbeOutcome } from "../types";
 
 // Configuration
 const SYNC_INTERVAL_MS = parseInt(process.env.SYNC_INTERVAL_MS || "60000", 10); // 60 seconds
 const STATS_CONCURRENCY = parseInt(process.env.STATS_CONCURRENCY || "30", 10);
 const STALE_NODE_RETENTION_DAYS = parseInt(process.env.STALE_RETENTION_DAYS || "7", 10);
-const INITIAL_SYNC_DELAY_MS = 5000;
 
-let syncIntervalId: NodeJS.Timeout | null = null;
 let isRunning = false;
 
 // ============================================
@@ -25,9 +32,11 @@ let isRunning = false;
 
 /**
  * Run a single sync cycle
+ * crawl forces (or suppresses) the gossip crawl regardless of CRAWL_ENABLED
  */
-export async function syncOnce(): Promise<{
+export async function syncOnce(options: { crawl?: boolean } = {}): Promise<{
   success: boolean;
+  error?: string;
   totalPods: number;
   uniqueIps: number;
   onlineCount: number;
@@ -36,60 +45,179 @@ export async function syncOnce(): Promise<{
 }> {
   if (isRunning) {
     logger.warn("Sync already in progress, skipping");
-    return { success: false, totalPods: 0, uniqueIps: 0, onlineCount: 0, offlineCount: 0, durationMs: 0 };
+    return { 
+      success: false, 
+      error: "Sync already in progress", 
+      totalPods: 0, 
+      uniqueIps: 0, 
+      onlineCount: 0, 
+      offlineCount: 0, 
+      durationMs: 0 
+    };
   }
   
   isRunning = true;
   store.setSyncStatus("syncing");
   const startTime = Date.now();
+  progress.startSyncRun();
   
   try {
-    // 1. Fetch all pods from bootstrap node
+    // 1. Fetch all pods from bootstrap nodes
     logger.sync("Fetching pods from network...");
-    const pods = await getPods();
+    let pods = await getPods();
     
     if (pods.length === 0) {
       logger.warn("No pods returned from network");
       store.setSyncStatus("error");
-      return { success: false, totalPods: 0, uniqueIps: 0, onlineCount: 0, offlineCount: 0, durationMs: Date.now() - startTime };
+      progress.finishSyncRun({ 
+        success: false, 
+        error: "No pods returned from network", 
+        totalPods: 0, 
+        uniqueNodes: 0, 
+        onlineCount: 0, 
+        offlineCount: 0 
+      });
+      return { 
+        success: false, 
+        error: "No pods returned from network", 
+        totalPods: 0, 
+        uniqueIps: 0, 
+        onlineCount: 0, 
+        offlineCount: 0, 
+        durationMs: Date.now() - startTime 
+      };
     }
     
     logger.sync(`Retrieved ${pods.length} pods from gossip`);
     
-    // 2. Deduplicate by IP (keep most recent by last_seen_timestamp)
-    const podsByIp = deduplicatePods(pods);
-    const uniquePods = Array.from(podsByIp.values());
-    const uniqueIps = uniquePods.map(p => extractIp(p.address));
+    // 2. Deduplicate into one pod per node key (canonical IP:port gossip address)
+    let podsByKey = deduplicatePods(pods);
+    let nodeKeys = Array.from(podsByKey.keys());
     
-    logger.sync(`Deduplicated to ${uniquePods.length} unique IPs`);
+    logger.sync(`Deduplicated to ${nodeKeys.length} unique nodes`);
     
     // 3. Fetch geolocation for new IPs
-    const ipsNeedingGeo = getUncachedIps(uniqueIps);
+    const ipsNeedingGeo = getUncachedIps(uniqueHosts(podsByKey));
+    progress.enterSyncPhase("geo", ipsNeedingGeo.length);
     if (ipsNeedingGeo.length > 0) {
       logger.sync(`Fetching geo for ${ipsNeedingGeo.length} new IPs...`);
       await batchGetGeoLocation(ipsNeedingGeo);
+      progress.advanceSyncPhase(ipsNeedingGeo.length);
     }
     
-    // 4. Batch fetch stats from all nodes
-    logger.sync(`Probing ${uniqueIps.length} nodes for stats...`);
-    const statsMap = await batchGetNodeStats(uniqueIps, STATS_CONCURRENCY);
+    // 4. Batch fetch stats from nodes whose probe is due
+    // Nodes missing from the store (removed, or state was imported) are treated as new
+    schedule.pruneSchedule(key => store.getNode(key) !== undefined);
+    // Nodes that reappear in gossip are probed now rather than after their old backoff
+    schedule.resetProbeSchedule(nodeKeys.filter(key => store.isAbsentFromGossip(key)));
+    const dueKeys = schedule.getDueIps(nodeKeys, startTime);
+    logger.sync(`Probing ${dueKeys.length}/${nodeKeys.length} nodes for stats...`);
+    progress.enterSyncPhase("probe", dueKeys.length);
+    const probes = await batchProbeNodes(
+      buildProbeTargets(dueKeys, podsByKey), 
+      STATS_CONCURRENCY, 
+      progress.advanceSyncPhase
+    );
+    const statsMap = toStatsMap(probes);
+    
+    // 4b. Crawl gossip from responsive nodes to find pods the bootstraps miss
+    if (options.crawl ?? isCrawlEnabled()) {
+      progress.enterSyncPhase("crawl");
+      const seedKeys = nodeKeys.filter(key => statsMap.get(key) || store.getNode(key)?.status === "online");
+      const seedIps = seedKeys.map(key => extractIp(podsByKey.get(key)!.address));
+      const crawl = await crawlGossip(seedIps, pods, ip => 
+        store.findNodesByHost(ip).find(n => n.rpcEndpoint)?.rpcEndpoint ?? undefined
+      );
+      
+      const knownKeys = new Set(nodeKeys);
+      pods = crawl.pods;
+      podsByKey = deduplicatePods(pods);
+      nodeKeys = Array.from(podsByKey.keys());
+      const newKeys = nodeKeys.filter(key => !knownKeys.has(key) && !statsMap.has(key));
+      
+      if (newKeys.length > 0) {
+        logger.sync(`Crawl found ${newKeys.length} new nodes, probing...`);
+        await batchGetGeoLocation(getUncachedIps(newKeys.map(key => extractIp(podsByKey.get(key)!.address))));
+        progress.enterSyncPhase("probe", newKeys.length);
+        const newProbes = await batchProbeNodes(
+          buildProbeTargets(newKeys, podsByKey), 
+          STATS_CONCURRENCY, 
+          progress.advanceSyncPhase
+        );
+        newProbes.forEach((probe, key) => {
+          probes.set(key, probe);
+          statsMap.set(key, probe.stats);
+        });
+      }
+    }
+    
+    // Availability needs the interval each node was scheduled at, so record it before rescheduling
+    // Nodes with no endpoint to try were not probed, so they count as neither up nor down
+    const probedStats = new Map(Array.from(statsMap).filter(([key]) => probes.get(key)?.outcome !== "no_candidate"));
+    recordProbeOutcomes(probedStats, startTime, schedule.getProbeInterval);
+    schedule.recordProbeResults(probedStats, startTime);
+    recordProbeLatencies(probes);
+    
+    const uniquePods = Array.from(podsByKey.values());
+    const sharedPubkeys = findSharedPubkeys(uniquePods);
+    sharedPubkeys.forEach((ips, pubkey) => {
+      store.recordIdentityConflict("shared_pubkey", pubkey, ips);
+    });
+    if (sharedPubkeys.size > 0) {
+      logger.sync(`${sharedPubkeys.size} pubkeys reported from multiple IPs`);
+    }
     
     // 5. Update store with results
+    progress.enterSyncPhase("update", podsByKey.size);
     let onlineCount = 0;
     let offlineCount = 0;
     
-    for (const pod of uniquePods) {
-      const ip = extractIp(pod.address);
-      const stats = statsMap.get(ip);
-      const geo = await getGeoForIp(ip);
+    for (const [key, pod] of podsByKey) {
+      const geo = await getGeoForIp(extractIp(pod.address));
       
-      store.upsertNode(ip, pod.address, {
-        version: pod.version,
+      // Not due this round: keep the last probe result, refresh what gossip reported
+      if (!statsMap.has(key)) {
+        const node = store.refreshNodeGossip(key, pod.address, {
+          version: pod.version,
+          pubkey: pod.pubkey,
+          lastSeenTimestamp: pod.last_seen_timestamp,
+          reportedBy: pod.reportedBy,
+          geo,
+        });
+        
+        if (node?.isOnline) {
+          onlineCount++;
+        } else {
+          offlineCount++;
+        }
+        progress.advanceSyncPhase(onlineCount + offlineCount);
+        continue;
+      }
+      
+      const stats = statsMap.get(key);
+      const probe = probes.get(key);
+      
+      // Derive current rates from counter deltas
+      let rates: TrafficRates | null = null;
+      let restarted = false;
+      if (stats) {
+        ({ rates, restarted } = recordCounterSample(key, stats, probe?.respondedAt ?? startTime));
+      }
+      
+      store.upsertNode(key, pod.address, {
+        // The node's own get-version answer beats what gossip last heard
+        version: probe?.version || pod.version,
         pubkey: pod.pubkey,
         lastSeenTimestamp: pod.last_seen_timestamp,
+        reportedBy: pod.reportedBy,
         stats: stats || null,
         geo,
-        isOnline: stats !== null,
+        isOnline: probe?.outcome === "no_candidate" ? undefined : stats !== null,
+        rates,
+        restarted,
+        latency: probe?.latency ?? null,
+        probeOutcome: toProbeOutcome(probe, startTime),
+        rpcEndpoint: probe?.outcome === "ok" ? probe.endpoint : undefined,
       });
       
       if (stats) {
@@ -97,32 +225,44 @@ export async function syncOnce(): Promise<{
       } else {
         offlineCount++;
       }
+      progress.advanceSyncPhase(onlineCount + offlineCount);
     }
     
     // 6. Mark nodes not in current gossip
-    const currentIps = new Set(uniqueIps);
-    store.markAbsentNodesUnknown(currentIps);
+    // (stale removal runs as its own job, see jobs.ts)
+    progress.enterSyncPhase("cleanup");
+    store.markAbsentNodesUnknown(new Set(nodeKeys));
     
-    // 7. Cleanup stale nodes
-    const removedCount = store.removeStaleNodes(STALE_NODE_RETENTION_DAYS);
+    // 7. One history point per successful sync
+    rollupHistory();
+    
+    // 8. Persist in the background (throttled, see persistence.ts)
+    persistAfterSync();
     
     store.setSyncStatus("idle");
     const durationMs = Date.now() - startTime;
     
     logger.sync(`Sync complete`, {
       totalPods: pods.length,
-      uniqueIps: uniquePods.length,
+      uniqueNodes: nodeKeys.length,
       online: onlineCount,
       offline: offlineCount,
-      removed: removedCount,
       durationMs,
-      successRate: `${((onlineCount / uniquePods.length) * 100).toFixed(1)}%`,
+      successRate: `${((onlineCount / nodeKeys.length) * 100).toFixed(1)}%`,
+    });
+    
+    progress.finishSyncRun({ 
+      success: true, 
+      totalPods: pods.length, 
+      uniqueNodes: nodeKeys.length, 
+      onlineCount, 
+      offlineCount 
     });
     
     return {
       success: true,
       totalPods: pods.length,
-      uniqueIps: uniquePods.length,
+      uniqueIps: nodeKeys.length,
       onlineCount,
       offlineCount,
       durationMs,
@@ -130,8 +270,17 @@ export async function syncOnce(): Promise<{
   } catch (error) {
     logger.error("Sync failed", { error: (error as Error).message });
     store.setSyncStatus("error");
+    progress.finishSyncRun({ 
+      success: false, 
+      error: (error as Error).message, 
+      totalPods: 0, 
+      uniqueNodes: 0, 
+      onlineCount: 0, 
+      offlineCount: 0 
+    });
     return { 
       success: false, 
+      error: (error as Error).message, 
       totalPods: 0, 
       uniqueIps: 0, 
       onlineCount: 0, 
@@ -144,38 +293,102 @@ export async function syncOnce(): Promise<{
 }
 
 /**
- * Deduplicate pods by IP, keeping the one with most recent timestamp
+ * Deduplicate pods into one per node key
+ * Pods on the same IP with the same pubkey are one pod (keep the most recent timestamp);
+ * the key is always the canonical gossip address, so it does not change when a sibling pod appears
  */
-function deduplicatePods(pods: Pod[]): Map<string, Pod> {
-  const podsByIp = new Map<string, Pod>();
-  const seenPubkeys = new Set<string>();
+function deduplicatePods(pods: DiscoveredPod[]): Map<string, DiscoveredPod> {
+  const podsByIp = new Map<string, Map<string, DiscoveredPod>>();
   
   for (const pod of pods) {
     const ip = extractIp(pod.address);
     if (!ip) continue;
     
-    const existing = podsByIp.get(ip);
+    const identities = podsByIp.get(ip) || new Map<string, DiscoveredPod>();
+    podsByIp.set(ip, identities);
     
-    // Handle duplicate pubkeys
-    if (pod.pubkey && seenPubkeys.has(pod.pubkey)) {
-      logger.debug(`Duplicate pubkey for ${ip}, clearing`);
-      pod.pubkey = null;
-    }
+    const identity = pod.pubkey || pod.address;
+    const existing = identities.get(identity);
     
-    if (!existing) {
-      podsByIp.set(ip, pod);
-      if (pod.pubkey) seenPubkeys.add(pod.pubkey);
-    } else {
-      // Keep the one with more recent timestamp
-      const existingTs = existing.last_seen_timestamp ?? 0;
-      const newTs = pod.last_seen_timestamp ?? 0;
-      if (newTs > existingTs) {
-        podsByIp.set(ip, pod);
-      }
+    // Keep the one with more recent timestamp
+    if (!existing || (pod.last_seen_timestamp ?? 0) > (existing.last_seen_timestamp ?? 0)) {
+      identities.set(identity, pod);
     }
   }
   
-  return podsByIp;
+  const podsByKey = new Map<string, DiscoveredPod>();
+  podsByIp.forEach(identities => {
+    // Canonical addresses, so IPv6 spellings of the same pod collapse
+    identities.forEach(pod => podsByKey.set(normalizeNodeKey(pod.address), pod));
+  });
+  
+  return podsByKey;
+}
+
+function uniqueHosts(podsByKey: Map<string, DiscoveredPod>): string[] {
+  return [...new Set(Array.from(podsByKey.values()).map(pod => extractIp(pod.address)))];
+}
+
+/**
+ * Build probe targets, remembering each node's RPC endpoint and the ones its IP siblings own
+ */
+function buildProbeTargets(keys: string[], podsByKey: Map<string, DiscoveredPod>): ProbeTarget[] {
+  const endpointsByHost = new Map<string, string[]>();
+  podsByKey.forEach((pod, key) => {
+    const endpoint = store.getNode(key)?.rpcEndpoint;
+    if (!endpoint) return;
+    const host = extractIp(pod.address);
+    endpointsByHost.set(host, [...(endpointsByHost.get(host) || []), endpoint]);
+  });
+  
+  return keys.map(key => {
+    const pod = podsByKey.get(key)!;
+    const rpcEndpoint = store.getNode(key)?.rpcEndpoint ?? null;
+    const claimed = (endpointsByHost.get(extractIp(pod.address)) || []).filter(e => e !== rpcEndpoint);
+    return { 
+      key, 
+      address: pod.address, 
+      rpcEndpoint, 
+      rpcPort: pod.rpc_port ?? null, 
+      claimed, 
+      version: pod.version ?? null 
+    };
+  });
+}
+
+/**
+ * Reduce probe results to the stats per IP (null when the probe failed)
+ */
+function toStatsMap(probes: Map<string, NodeProbe>): Map<string, NodeStats | null> {
+  const statsMap = new Map<string, NodeStats | null>();
+  probes.forEach((probe, ip) => statsMap.set(ip, probe.stats));
+  return statsMap;
+}
+
+function toProbeOutcome(probe: NodeProbe | undefined, timestamp: number): ProbeOutcome | undefined {
+  if (!probe) return undefined;
+  return { type: probe.outcome, message: probe.error, timestamp: new Date(timestamp) };
+}
+
+/**
+ * Group IPs by pubkey, returning pubkeys reported from more than one IP
+ */
+function findSharedPubkeys(pods: DiscoveredPod[]): Map<string, string[]> {
+  const ipsByPubkey = new Map<string, Set<string>>();
+  
+  for (const pod of pods) {
+    if (!pod.pubkey) continue;
+    const ips = ipsByPubkey.get(pod.pubkey) || new Set<string>();
+    ips.add(extractIp(pod.address));
+    ipsByPubkey.set(pod.pubkey, ips);
+  }
+  
+  const shared = new Map<string, string[]>();
+  ipsByPubkey.forEach((ips, pubkey) => {
+    if (ips.size > 1) shared.set(pubkey, Array.from(ips));
+  });
+  
+  return shared;
 }
 
 /**
@@ -187,63 +400,47 @@ async function getGeoForIp(ip: string): Promise<import("../types").GeoLocation |
 }
 
 // ============================================
-// Sync Service Management
+// Maintenance (run as scheduled jobs)
 // ============================================
 
 /**
- * Start the automated sync service
+ * Remove nodes unseen for STALE_RETENTION_DAYS and drop their derived state
  */
-export function startSyncService(): void {
-  if (syncIntervalId) {
-    logger.warn("Sync service already running");
-    return;
-  }
+export function cleanupStaleNodes(): { removed: number; remaining: number } {
+  const removed = store.removeStaleNodes(STALE_NODE_RETENTION_DAYS);
   
-  logger.info(`Starting sync service (interval: ${SYNC_INTERVAL_MS / 1000}s)`);
+  pruneCounterSamples(key => store.getNode(key) !== undefined);
+  pruneAvailability(key => store.getNode(key) !== undefined);
+  pruneLatency(key => store.getNode(key) !== undefined);
   
-  // Initial sync after short delay
-  setTimeout(async () => {
-    logger.sync("Running initial sync...");
-    await syncOnce();
-  }, INITIAL_SYNC_DELAY_MS);
-  
-  // Periodic sync
-  syncIntervalId = setInterval(async () => {
-    await syncOnce();
-  }, SYNC_INTERVAL_MS);
+  return { removed, remaining: store.getStoreSize() };
 }
 
 /**
- * Stop the sync service
+ * Append a point to every node's activity history and roll network aggregates into metric
+ * and decentralization history
  */
-export function stopSyncService(): void {
-  if (syncIntervalId) {
-    clearInterval(syncIntervalId);
-    syncIntervalId = null;
-    logger.info("Sync service stopped");
-  }
+function rollupHistory(now: number = Date.now()): void {
+  store.recordNodeActivity();
+  recordNetworkSnapshot(store.calculateNetworkStats(), now);
+  recordDecentralization(store.getAllNodes(), now);
 }
 
-/**
- * Check if sync service is running
- */
-export function isSyncServiceRunning(): boolean {
-  return syncIntervalId !== null;
-}
+// ============================================
+// Configuration
+// ============================================
 
 /**
- * Get sync service configuration
+ * Get sync configuration
  */
 export function getSyncConfig(): {
   intervalMs: number;
   concurrency: number;
   staleRetentionDays: number;
-  isRunning: boolean;
 } {
   return {
     intervalMs: SYNC_INTERVAL_MS,
     concurrency: STATS_CONCURRENCY,
     staleRetentionDays: STALE_NODE_RETENTION_DAYS,
-    isRunning: syncIntervalId !== null,
   };
 }
@@ -14,6 +14,7 @@ export const PodSchema = z.object({
   version: z.string().optional(),
   pubkey: z.string().nullable().optional(),
   last_seen_timestamp: z.number().optional(),
+  rpc_port: z.number().optional(), // RPC port the pod advertises (newer versions)
 });
 
 export const GetPodsResultSchema = z.object({
@@ -51,10 +52,95 @@ export const NodeStatsSchema = z.object({
 export type Pod = z.infer<typeof PodSchema>;
 export type NodeStats = z.infer<typeof NodeStatsSchema>;
 
+/**
+ * Result of one probe round-trip (get-stats plus extra methods)
+ */
+export interface NodeProbe {
+  stats: NodeStats | null;
+  version: string | null; // From get-version, when the node answers it
+  extras: Record<string, unknown>; // Raw results of the extra methods, keyed by method
+  latency: ProbeLatency;
+  outcome: ProbeOutcomeType;
+  error: string | null; // Failure message (null when ok)
+  endpoint: string | null; // RPC URL that answered (or was last tried)
+  respondedAt: number | null; // Epoch ms the stats answer arrived (null when it never did)
+}
+
+/**
+ * Why a probe succeeded or failed
+ * refused = host up but nothing listening (firewalled/crashed RPC), unreachable = host or route down,
+ * no_candidate = nothing to try (every candidate port belongs to a sibling pod on the same IP)
+ */
+export type ProbeOutcomeType =
+  | "ok"
+  | "timeout"
+  | "refused"
+  | "unreachable"
+  | "invalid_schema"
+  | "rpc_error"
+  | "no_candidate";
+
+export interface ProbeOutcome {
+  type: ProbeOutcomeType;
+  message: string | null;
+  timestamp: Date;
+}
+
+export interface ProbeOutcomeSummary {
+  latest: Record<ProbeOutcomeType, number>; // Nodes by their most recent outcome
+  recent: Record<ProbeOutcomeType, number>; // All retained outcomes across nodes
+  byCountry: Record<string, Partial<Record<ProbeOutcomeType, number>>>; // Latest outcome per country
+  nodesByOutcome: Record<ProbeOutcomeType, string[]>; // IPs grouped by latest outcome
+  probedNodes: number;
+}
+
+/**
+ * Timing of one probe from the explorer's vantage point
+ */
+export interface ProbeLatency {
+  rttMs: number | null; // Round-trip of the final attempt (null when it never answered)
+  attempts: number;
+  timeoutMs: number;
+}
+
+/**
+ * A pod merged from one or more gossip sources
+ */
+export type DiscoveredPod = Pod & {
+  reportedBy: string[]; // Bootstrap URLs that returned this pod
+};
+
+export interface BootstrapHealth {
+  url: string;
+  status: "healthy" | "failing" | "unknown";
+  lastSuccess: Date | null;
+  lastFailure: Date | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastPodCount: number;
+  lastDurationMs: number | null;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerStatus {
+  url: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  lastFailure: Date | null;
+  lastError: string | null;
+  trips: number; // Times the breaker has opened
+}
+
 // ============================================
 // Geolocation Types
 // ============================================
 
+export type GeoSource = "override" | "database" | "ip-api";
+
 export interface GeoLocation {
   latitude: number;
   longitude: number;
@@ -63,6 +149,12 @@ export interface GeoLocation {
   city: string;
   region?: string;
   timezone?: string;
+  source: GeoSource; // Provider that produced the location
+  
+  // Network owner (omitted when the provider does not know it)
+  asn?: number;       // Autonomous system number, e.g. 24940
+  org?: string;       // AS organization, e.g. "Hetzner Online GmbH"
+  hosting?: boolean;  // Datacenter/hosting network (false = residential or business access)
 }
 
 // ============================================
@@ -75,20 +167,43 @@ export interface DerivedMetrics {
   ramUsagePercent: number;
   storageUtilizationPercent: number;
   uptimeHuman: string;
-  packetsPerSecond: number;
+  packetsPerSecond: number; // Lifetime average (packets / uptime)
+  currentPacketsPerSecond: number | null; // Since previous sync (null until two samples)
+  currentBytesPerSecond: number | null;
   healthScore: number; // 0-100 composite score
   healthGrade: "excellent" | "good" | "fair" | "poor" | "critical";
 }
 
+/**
+ * Counter sample kept between syncs to derive per-interval rates
+ */
+export interface CounterSample {
+  timestamp: number; // epoch ms
+  packetsSent: number;
+  packetsReceived: number;
+  totalBytes: number;
+  uptime: number;
+}
+
+export interface TrafficRates {
+  packetsSentPerSecond: number;
+  packetsReceivedPerSecond: number;
+  packetsPerSecond: number;
+  bytesPerSecond: number;
+  intervalSeconds: number;
+}
+
 // ============================================
 // Core Node Model (Explorer View)
 // ============================================
 
 export interface XandeumNode {
   // Identity
-  id: string; // Unique ID (IP-based)
-  ip: string;
-  address: string; // Full address (IP:port)
+  id: string; // Unique ID (address-based, URL-safe; assigned once and kept across restarts)
+  key: string; // Store key: canonical gossip address ("IP:port", "[IPv6]:port")
+  ip: string; // Host IP
+  address: string; // Full gossip address (IP:port)
+  rpcEndpoint: string | null; // Discovered RPC URL
   pubkey: string | null;
   version: string | null;
   
@@ -102,12 +217,18 @@ export interface XandeumNode {
   lastSeenTimestamp: number | null;
   lastSeenAgo: string | null; // Human readable "2 hours ago"
   firstSeen: Date | null;
+  reportedBy: string[]; // Gossip sources that reported this node in the last sync
   
   // Raw Stats (from pRPC)
   stats: NodeStats | null;
   
   // Computed Metrics
   derived: DerivedMetrics | null;
+  rates: TrafficRates | null; // Current per-interval rates
+  latency: ProbeLatency | null; // Last probe timing
+  probeOutcomes: ProbeOutcome[]; // Most recent probe results, oldest first
+  restartCount: number; // Restarts detected since first seen
+  lastRestartAt: Date | null;
   
   // Location
   geo: GeoLocation | null;
@@ -140,6 +261,7 @@ export interface NetworkSummary {
   networkScore: number; // 0-100
   uniqueCountries: number;
   uniqueVersions: number;
+  uniqueOperators: number; // Distinct pubkeys across nodes
 }
 
 export interface NetworkPerformance {
@@ -166,7 +288,10 @@ export interface NetworkTraffic {
   totalPacketsSent: number;
   totalPacketsReceived: number;
   totalPackets: number;
-  avgPacketsPerSecond: number;
+  avgPacketsPerSecond: number; // Lifetime average across nodes
+  currentPacketsPerSecond: number; // Sum of current per-interval rates
+  currentBytesPerSecond: number;
+  nodesWithRates: number;
   totalActiveStreams: number;
 }
 
@@ -183,6 +308,68 @@ export interface DistributionData {
   };
 }
 
+/**
+ * Nodes sharing one network owner (autonomous system)
+ */
+export interface ProviderShare {
+  asn: number | null;      // null groups located nodes whose network owner is unknown
+  org: string;
+  hosting: boolean | null; // null when the network type is unknown
+  nodes: number;
+  online: number;
+  percent: number;         // Share of all nodes
+  countries: string[];
+}
+
+export interface ProviderDistribution {
+  providers: ProviderShare[];
+  summary: {
+    totalNodes: number;
+    withAsn: number;       // Nodes whose network owner is known
+    hosting: number;       // Nodes on datacenter/hosting networks
+    residential: number;   // Nodes on residential or business access networks
+    unknownNetwork: number;
+    largestProviderPercent: number;
+  };
+}
+
+// ============================================
+// Decentralization
+// ============================================
+
+export type DecentralizationDimension = "country" | "city" | "version" | "subnet" | "provider";
+
+// How much each node counts: one per node, or its storage capacity (file_size)
+export type DecentralizationWeight = "nodes" | "storage";
+
+export type ConcentrationMetric = "hhi" | "nakamoto" | "topShare" | "entropy" | "normalizedEntropy";
+
+export interface ConcentrationGroup {
+  key: string;    // Country, "City, CC", version, "1.2.3.0/24" or "AS24940"
+  label?: string; // Organization name for providers
+  nodes: number;
+  weight: number;
+  share: number;  // Percent of the known weight
+}
+
+/**
+ * Concentration of one dimension; nodes with an unknown value are left out
+ */
+export interface ConcentrationStats {
+  dimension: DecentralizationDimension;
+  weight: DecentralizationWeight;
+  groups: number;
+  knownWeight: number;
+  unknownWeight: number;     // Weight of nodes with no value for the dimension
+  unknownNodes: number;      // Nodes left out: no value, or no weight (e.g. no storage reported)
+  hhi: number;               // Herfindahl-Hirschman index, 0 (spread) to 10000 (one group)
+  nakamoto: number;          // Fewest groups that together exceed the threshold share
+  topShare: number;          // Percent held by the top N groups
+  entropy: number;           // Shannon entropy in bits
+  normalizedEntropy: number; // Entropy over its maximum for this many groups, 0-1
+  top: ConcentrationGroup[];
+}
+
 export interface NetworkStats {
   summary: NetworkSummary;
   performance: NetworkPerformance;
@@ -193,6 +380,36 @@ export interface NetworkStats {
   syncStatus: "syncing" | "idle" | "error";
 }
 
+// ============================================
+// Network Metric History
+// ============================================
+
+export type NetworkMetric =
+  | "totalNodes"
+  | "onlineNodes"
+  | "offlineNodes"
+  | "onlinePercent"
+  | "networkScore"
+  | "avgHealthScore"
+  | "avgCpuPercent"
+  | "avgRamPercent"
+  | "totalRamBytes"
+  | "usedRamBytes"
+  | "totalPages"
+  | "totalPackets"
+  | "currentPacketsPerSecond"
+  | "totalActiveStreams";
+
+export type RollupResolution = "1m" | "1h" | "1d";
+
+export interface MetricRollupPoint {
+  timestamp: Date; // Bucket start
+  min: number;
+  avg: number;
+  max: number;
+  samples: number;
+}
+
 // ============================================
 // API Response Types
 // ============================================
@@ -241,6 +458,9 @@ export interface NodeSearchFilter {
   version?: string;
   city?: string;
   hasPublicRpc?: boolean;
+  provider?: string;  // AS organization substring, or "AS24940"
+  asn?: number;
+  hosting?: boolean;
 }
 
 export interface SearchResult {
@@ -303,6 +523,301 @@ export interface NodeActivityPoint {
   ramPercent: number;
 }
 
+export type HistoryWindow = "24h" | "7d" | "30d";
+
+export interface NodeHistoryResponse {
+  ip: string;
+  window: HistoryWindow;
+  resolution: "sync" | "1h";
+  points: NodeActivityPoint[];
+  timestamp: string;
+}
+
+// ============================================
+// Operator Identity (pubkey-keyed)
+// ============================================
+
+export interface OperatorAddress {
+  key: string; // Node key
+  ip: string;
+  address: string;
+  firstSeen: Date;
+  lastSeen: Date;
+  active: boolean; // Node at this address currently reports this pubkey
+}
+
+export interface Operator {
+  pubkey: string;
+  firstSeen: Date;
+  lastSeen: Date;
+  status: NodeStatus; // Best status across active addresses
+  activeKeys: string[]; // Node keys currently reporting this pubkey
+  addresses: OperatorAddress[];
+  conflictCount: number;
+}
+
+export type IdentityConflictType =
+  | "shared_pubkey"     // Same pubkey gossiped from several IPs at once
+  | "pubkey_reassigned"; // An IP started reporting a different pubkey
+
+export interface IdentityConflict {
+  type: IdentityConflictType;
+  pubkey: string;
+  ips: string[];
+  previousPubkey: string | null;
+  firstDetected: Date;
+  lastDetected: Date;
+  occurrences: number;
+}
+
+// ============================================
+// Availability (SLA)
+// ============================================
+
+export interface AvailabilityStats {
+  window: HistoryWindow;
+  availabilityPercent: number | null; // null when the node was never probed in the window
+  observedSeconds: number;
+  upSeconds: number;
+  longestOutageSeconds: number;
+  longestOutageHuman: string;
+}
+
+export interface AvailabilityStreak {
+  status: "up" | "down";
+  since: Date;
+  durationSeconds: number;
+  durationHuman: string;
+}
+
+export interface NodeAvailability {
+  key: string; // Node key
+  ip: string;
+  windows: Record<HistoryWindow, AvailabilityStats>;
+  currentStreak: AvailabilityStreak | null;
+}
+
+// ============================================
+// Node Lifecycle Events
+// ============================================
+
+export type NodeEventType =
+  | "node_joined"
+  | "node_offline"
+  | "node_recovered"
+  | "version_changed"
+  | "pubkey_changed"
+  | "restarted"
+  | "removed";
+
+export interface NodeEvent {
+  id: number;
+  type: NodeEventType;
+  key: string; // Node key
+  ip: string;  // Host IP
+  pubkey: string | null;
+  timestamp: Date;
+  from: string | null; // Previous value (status, version, pubkey)
+  to: string | null;   // New value
+  message: string;
+}
+
+export interface NodeEventFilter {
+  types?: NodeEventType[];
+  key?: string; // Node key
+  pubkey?: string;
+  since?: number; // epoch ms
+  until?: number; // epoch ms
+  limit?: number;
+}
+
+// ============================================
+// Probe Latency
+// ============================================
+
+export interface LatencyStats {
+  samples: number;
+  minMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+  maxMs: number | null;
+}
+
+export interface NodeLatency extends LatencyStats {
+  key: string; // Node key
+  ip: string;
+  lastRttMs: number | null;
+}
+
+export interface LatencyGroup extends LatencyStats {
+  key: string;   // Country or version
+  nodes: number; // Nodes contributing samples
+}
+
+// ============================================
+// Sync Progress
+// ============================================
+
+export type SyncPhase = "fetch_pods" | "geo" | "probe" | "crawl" | "update" | "cleanup";
+
+export interface SyncProgress {
+  runId: number;
+  phase: SyncPhase;
+  done: number;  // Items finished in the current phase
+  total: number; // Items in the current phase
+  startedAt: Date;
+  elapsedMs: number;
+  phaseElapsedMs: number;
+  etaMs: number | null; // Estimated time until the run finishes (null until there is data to estimate from)
+  phaseDurations: Partial<Record<SyncPhase, number>>; // Completed phases so far
+}
+
+export interface SyncPhaseStep {
+  phase: SyncPhase;
+  durationMs: number;
+}
+
+export interface SyncRun {
+  id: number;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  success: boolean;
+  error: string | null;
+  phaseDurations: Partial<Record<SyncPhase, number>>;
+  phaseSteps: SyncPhaseStep[]; // Phases in the order the run went through them (a phase can repeat)
+  totalPods: number;
+  uniqueNodes: number;
+  onlineCount: number;
+  offlineCount: number;
+}
+
+// ============================================
+// Background Jobs
+// ============================================
+
+export type JobSchedule =
+  | { type: "interval"; everyMs: number }
+  | { type: "cron"; expression: string }; // 5-field cron, evaluated in UTC
+
+export type JobTrigger = "schedule" | "manual";
+
+export type JobRunStatus = "running" | "success" | "failed";
+
+export interface JobRun {
+  id: number;
+  job: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+  result: Record<string, unknown> | null; // Summary returned by the job
+  error: string | null;
+}
+
+export interface JobInfo {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  lock: string; // Jobs sharing a lock never run at the same time
+  paused: boolean;
+  running: JobRun | null;
+  lastRun: JobRun | null;
+  nextRunAt: Date | null;
+  runCount: number;
+  failureCount: number;
+}
+
+// ============================================
+// Schema Drift
+// ============================================
+
+export type SchemaSource = "get-stats" | "get-pods";
+
+export interface SchemaFieldCoverage {
+  field: string;
+  presentPercent: number;
+  missing: number;   // Samples without the field
+  wrongType: number; // Samples where the value failed the field's schema
+}
+
+export interface SchemaExtraField {
+  field: string;
+  seen: number;
+  types: string[]; // typeof values observed
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export interface SchemaVersionCoverage {
+  version: string;
+  samples: number;
+  fields: SchemaFieldCoverage[];
+  extraFields: SchemaExtraField[];
+}
+
+export interface SchemaCoverageReport {
+  source: SchemaSource;
+  samples: number;
+  versions: SchemaVersionCoverage[];
+  newFields: Array<{ field: string; seen: number; versions: string[]; types: string[] }>; // Unknown fields across all versions
+  driftingFields: Array<{ field: string; missing: number; wrongType: number; versions: string[] }>; // Known fields not always as expected
+}
+
+// ============================================
+// Gossip Topology
+// ============================================
+
+export interface TopologyNode {
+  key: string; // Node key
+  ip: string;
+  status: NodeStatus;
+  version: string | null;
+  knownBy: number;      // In-degree: peers whose get-pods lists this node
+  knows: number;        // Out-degree: nodes this peer lists
+  bootstrapReported: boolean;
+  component: number | null; // Index into components (null when no peer edges)
+  singlePeer: boolean;  // Only one peer knows this node
+}
+
+export interface TopologyEdge {
+  source: string; // Reporting peer's node key
+  target: string; // Reported node's key
+}
+
+export interface DegreeStats {
+  min: number;
+  max: number;
+  avg: number;
+  median: number;
+}
+
+export interface TopologyComponent {
+  id: number;
+  size: number;
+  keys: string[]; // Node keys
+}
+
+export interface TopologyGraph {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+  components: TopologyComponent[]; // Largest first
+  stats: {
+    nodeCount: number;
+    edgeCount: number;
+    reportingPeers: number; // Nodes with at least one outgoing edge
+    unlinkedNodes: number;  // Nodes only seen via bootstraps
+    knownBy: DegreeStats;
+    knows: DegreeStats;
+    componentCount: number;
+    largestComponentSize: number;
+    singlePeerCount: number;
+    partitioned: boolean; // More than one component with peer edges
+  };
+}
+
 export interface NodeHeatmapData {
   date: string; // YYYY-MM-DD
   transactionCount: number; // For Xandeum: could be packet count
@@ -321,6 +836,7 @@ export interface ExplorerSearchResult {
 }
 
 export interface MapMarker {
+  key: string; // Node key
   ip: string;
   lat: number;
   lng: number;